@@ -0,0 +1,96 @@
+import { BalanceStrategy, ExcelRow } from './src/types.js';
+import { readJson, writeJson } from './json-store.js';
+import { normalizePhoneNumber } from './phone-number.js';
+import { groupRecipients } from './recipient-dedupe.js';
+
+export interface PoolAccount {
+    accountId: string;
+    // Messages the account can still send today, or null when it has no daily cap
+    capacity: number | null;
+}
+
+/**
+ * Share of each account, relative to the others.
+ *
+ *   round-robin  every account gets the same share
+ *   weighted     shares follow what each account can still send today; accounts without
+ *                a daily cap count as much as the roomiest capped account
+ */
+function poolWeights(pool: PoolAccount[], strategy: BalanceStrategy): number[] {
+    const capacities = pool.map(account => account.capacity).filter((capacity): capacity is number => capacity !== null);
+    if (strategy === 'round-robin' || capacities.length === 0) {
+        return pool.map(() => 1);
+    }
+
+    const uncapped = Math.max(1, ...capacities);
+    const weights = pool.map(account => account.capacity ?? uncapped);
+    // Every account is out of room; spread evenly and let each one wait for its limit
+    return weights.some(weight => weight > 0) ? weights : pool.map(() => 1);
+}
+
+/**
+ * Spreads the rows of one campaign over several WhatsApp accounts.
+ *
+ * All rows for a number go to the same account, so deduplication and merging still work per
+ * account. A number that was messaged before goes to the account that messaged it, as long
+ * as that account is in the pool, so follow-ups arrive in the same chat. These sticky
+ * assignments are kept on disk.
+ */
+class AccountBalancer {
+    private filePath: string;
+    // Account that last messaged each number, keyed by E.164
+    private assignments: Record<string, string>;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+        this.assignments = readJson<Record<string, string>>(filePath, {});
+    }
+
+    // Rows for each account in the pool, in sheet order; accounts that get no rows are left out
+    assign(data: ExcelRow[], phoneColumn: string, pool: PoolAccount[], strategy: BalanceStrategy, defaultCountryCode?: string): Map<string, ExcelRow[]> {
+        if (pool.length === 0) {
+            throw new Error('No account to send from');
+        }
+
+        const weights = poolWeights(pool, strategy);
+        const loads = pool.map(() => 0);
+        const shares = new Map<string, ExcelRow[]>();
+
+        for (const group of groupRecipients(data, phoneColumn, 'merge', defaultCountryCode)) {
+            const phone = group.row[phoneColumn];
+            const normalized = phone && !(phone instanceof Date) ? normalizePhoneNumber(phone, defaultCountryCode) : null;
+            const sticky = normalized?.valid ? this.assignments[normalized.e164] : undefined;
+
+            let index = pool.findIndex(account => account.accountId === sticky);
+            if (index === -1) {
+                // The account furthest below its share takes the next number; ties go to the earlier account
+                index = 0;
+                for (let i = 1; i < pool.length; i++) {
+                    if (weights[i] > 0 && (weights[index] === 0 || loads[i] / weights[i] < loads[index] / weights[index])) {
+                        index = i;
+                    }
+                }
+            }
+
+            loads[index] += group.rows.length;
+            const accountId = pool[index].accountId;
+            shares.set(accountId, [...(shares.get(accountId) ?? []), ...group.rows]);
+        }
+
+        for (const rows of shares.values()) {
+            rows.sort((a, b) => (a.__rowIndex as number) - (b.__rowIndex as number));
+        }
+        return shares;
+    }
+
+    // Keep sending to a number from the account that just messaged it
+    remember(e164: string, accountId: string): void {
+        if (this.assignments[e164] === accountId) {
+            return;
+        }
+        this.assignments[e164] = accountId;
+        writeJson(this.filePath, this.assignments);
+    }
+}
+
+export default AccountBalancer;
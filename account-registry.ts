@@ -0,0 +1,89 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { WhatsAppAccount } from './src/types.js';
+import { readJson, writeJson } from './json-store.js';
+
+// The account every install starts with; it keeps the session folder used before accounts existed
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+const DEFAULT_ACCOUNT: WhatsAppAccount = {
+    id: DEFAULT_ACCOUNT_ID,
+    name: 'Main account',
+    createdAt: new Date(0).toISOString()
+};
+
+/**
+ * Named WhatsApp accounts, kept on disk. Each account logs in with its own session, so
+ * several business numbers can be connected side by side. The default account is always
+ * there and cannot be removed. Emits 'updated' with the accounts on every change.
+ */
+class AccountRegistry extends EventEmitter {
+    private filePath: string;
+    private accounts: WhatsAppAccount[];
+
+    constructor(filePath: string) {
+        super();
+        this.filePath = filePath;
+        this.accounts = readJson<WhatsAppAccount[]>(filePath, []);
+        if (!this.accounts.some(account => account.id === DEFAULT_ACCOUNT_ID)) {
+            this.accounts.unshift(DEFAULT_ACCOUNT);
+        }
+    }
+
+    private save(): void {
+        writeJson(this.filePath, this.accounts);
+        this.emit('updated', this.list());
+    }
+
+    list(): WhatsAppAccount[] {
+        return this.accounts;
+    }
+
+    get(id: string): WhatsAppAccount {
+        const account = this.accounts.find(candidate => candidate.id === id);
+        if (!account) {
+            throw new Error(`Account ${id} not found`);
+        }
+        return account;
+    }
+
+    private checkName(name: string): string {
+        const trimmed = name.trim();
+        if (!trimmed) {
+            throw new Error('Enter a name for the account');
+        }
+        if (this.accounts.some(account => account.name.toLowerCase() === trimmed.toLowerCase())) {
+            throw new Error(`There is already an account named "${trimmed}"`);
+        }
+        return trimmed;
+    }
+
+    add(name: string): WhatsAppAccount {
+        const account: WhatsAppAccount = {
+            id: randomUUID(),
+            name: this.checkName(name),
+            createdAt: new Date().toISOString()
+        };
+        this.accounts.push(account);
+        this.save();
+        return account;
+    }
+
+    // A cap of 0 or less removes it
+    setDailyCap(id: string, dailyCap: number): void {
+        const account = this.get(id);
+        account.dailyCap = dailyCap > 0 ? Math.floor(dailyCap) : undefined;
+        this.save();
+    }
+
+    remove(id: string): void {
+        if (id === DEFAULT_ACCOUNT_ID) {
+            throw new Error('The main account cannot be removed');
+        }
+        this.get(id);
+        this.accounts = this.accounts.filter(account => account.id !== id);
+        this.save();
+    }
+}
+
+export default AccountRegistry;
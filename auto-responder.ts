@@ -0,0 +1,147 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { AutoReplyRule, ExcelRow, InboxReply } from './src/types.js';
+import { readJson, writeJson } from './json-store.js';
+import { parseTemplate, renderTemplate } from './template-engine.js';
+import { normalizeReply } from './opt-out.js';
+
+interface AutoResponderData {
+    rules: AutoReplyRule[];
+    // When each contact last got each rule's answer, keyed by `${ruleId}:${e164}`
+    lastReplies: Record<string, string>;
+}
+
+// Regex rules only see the start of a reply, so a badly backtracking pattern stays cheap
+const MAX_REGEX_INPUT = 1000;
+
+function compilePattern(pattern: string): RegExp {
+    try {
+        return new RegExp(pattern, 'iu');
+    } catch (error) {
+        // The engine's message already names the pattern and the problem
+        throw new Error(error instanceof Error ? error.message : `Invalid regular expression: ${pattern}`);
+    }
+}
+
+/**
+ * Rules that answer replies to campaign messages automatically.
+ *
+ * Rules are checked in order and the first enabled one that matches answers; its template
+ * is rendered against the row the contact was messaged from. A rule stays silent for a
+ * contact until its cooldown has passed, so a chatty contact gets each answer only once
+ * in a while. Emits 'updated' with the rules whenever they change.
+ */
+class AutoResponder extends EventEmitter {
+    private filePath: string;
+    private data: AutoResponderData;
+    // Compiled patterns of the regex rules, keyed by rule id
+    private patterns = new Map<string, RegExp>();
+
+    constructor(filePath: string) {
+        super();
+        this.filePath = filePath;
+        this.data = readJson<AutoResponderData>(filePath, { rules: [], lastReplies: {} });
+        for (const rule of this.data.rules.filter(candidate => candidate.match === 'regex')) {
+            try {
+                this.patterns.set(rule.id, compilePattern(rule.pattern));
+            } catch (error) {
+                // A rule saved by an older version with a broken pattern never matches
+                console.error(`Auto-reply rule "${rule.name}" has an invalid pattern:`, error);
+            }
+        }
+    }
+
+    private save(): void {
+        writeJson(this.filePath, this.data);
+    }
+
+    list(): AutoReplyRule[] {
+        return this.data.rules;
+    }
+
+    // Add a rule, or replace the rule with the same id
+    saveRule(rule: Omit<AutoReplyRule, 'id'> & { id?: string }): AutoReplyRule {
+        if (!rule.template.trim()) {
+            throw new Error('The reply message is empty');
+        }
+        if (rule.match !== 'any' && !rule.pattern.trim()) {
+            throw new Error(rule.match === 'keyword' ? 'Enter at least one keyword' : 'Enter a regular expression');
+        }
+        const pattern = rule.match === 'regex' ? compilePattern(rule.pattern) : null;
+        // Throws on unbalanced blocks, so a broken template is caught before any reply goes out
+        parseTemplate(rule.template);
+
+        const saved: AutoReplyRule = { ...rule, id: rule.id ?? randomUUID(), cooldownMinutes: Math.max(0, rule.cooldownMinutes) };
+        if (pattern) {
+            this.patterns.set(saved.id, pattern);
+        } else {
+            this.patterns.delete(saved.id);
+        }
+        const index = this.data.rules.findIndex(existing => existing.id === saved.id);
+        if (index === -1) {
+            this.data.rules.push(saved);
+        } else {
+            this.data.rules[index] = saved;
+        }
+        this.save();
+        this.emit('updated', this.list());
+        return saved;
+    }
+
+    removeRule(id: string): void {
+        this.data.rules = this.data.rules.filter(rule => rule.id !== id);
+        this.patterns.delete(id);
+        for (const key of Object.keys(this.data.lastReplies)) {
+            if (key.startsWith(`${id}:`)) {
+                delete this.data.lastReplies[key];
+            }
+        }
+        this.save();
+        this.emit('updated', this.list());
+    }
+
+    private matches(rule: AutoReplyRule, body: string): boolean {
+        switch (rule.match) {
+            case 'any':
+                return true;
+            case 'keyword': {
+                // Matched like opt-out keywords: the whole reply, ignoring case and punctuation
+                const reply = normalizeReply(body);
+                return reply !== '' && rule.pattern.split(',').some(keyword => normalizeReply(keyword) === reply);
+            }
+            case 'regex':
+                return this.patterns.get(rule.id)?.test(body.slice(0, MAX_REGEX_INPUT)) ?? false;
+        }
+    }
+
+    /**
+     * The answer to a reply, or null when no rule matches or the matching rule is cooling down
+     * for this contact. `row` is the campaign row the contact was messaged from.
+     */
+    respond(reply: InboxReply, row: ExcelRow, now: Date = new Date()): { rule: AutoReplyRule; text: string } | null {
+        const rule = this.data.rules.find(candidate =>
+            candidate.enabled
+            && (!candidate.campaignId || candidate.campaignId === reply.campaignId)
+            && this.matches(candidate, reply.body)
+        );
+        if (!rule) {
+            return null;
+        }
+
+        const lastReply = this.data.lastReplies[`${rule.id}:${reply.e164}`];
+        if (lastReply && now.getTime() - new Date(lastReply).getTime() < rule.cooldownMinutes * 60 * 1000) {
+            return null;
+        }
+
+        const text = renderTemplate(rule.template, row).text.trim();
+        return text ? { rule, text } : null;
+    }
+
+    // Start the rule's cooldown for a contact once its answer was sent
+    markReplied(ruleId: string, e164: string, now: Date = new Date()): void {
+        this.data.lastReplies[`${ruleId}:${e164}`] = now.toISOString();
+        this.save();
+    }
+}
+
+export default AutoResponder;
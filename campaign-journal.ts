@@ -0,0 +1,174 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { CampaignRecord, CampaignStatus, CampaignSummary, DeliveryReceipt, DeliveryStatus, ExcelRow, JournalEntry, SendMessagesOptions } from './src/types.js';
+import { readJson, reviveRows, writeJson } from './json-store.js';
+
+const RECORD_FILE = 'campaign.json';
+const JOURNAL_FILE = 'journal.jsonl';
+const RECEIPTS_FILE = 'receipts.jsonl';
+
+/**
+ * Persists every campaign and each row outcome to disk as it happens.
+ *
+ * Each campaign gets its own directory holding the campaign record (options and rows)
+ * and an append-only journal with one JSON line per row outcome. Appending a single
+ * line per row means a crash can lose at most the row that was in flight.
+ */
+class CampaignJournal {
+    private baseDir: string;
+
+    constructor(baseDir: string) {
+        this.baseDir = baseDir;
+
+        if (!fs.existsSync(baseDir)) {
+            fs.mkdirSync(baseDir, { recursive: true });
+        }
+    }
+
+    private campaignDir(id: string): string {
+        return path.join(this.baseDir, id);
+    }
+
+    private writeRecord(record: CampaignRecord): void {
+        writeJson(path.join(this.campaignDir(record.id), RECORD_FILE), record);
+    }
+
+    create(options: SendMessagesOptions): CampaignRecord {
+        const now = new Date().toISOString();
+        const record: CampaignRecord = {
+            id: `${now.slice(0, 10)}-${randomUUID().slice(0, 8)}`,
+            createdAt: now,
+            updatedAt: now,
+            status: 'running',
+            options: {
+                ...options,
+                // Pin a stable row index so journal entries can be matched back to rows
+                data: options.data.map((row, index) => ({ ...row, __rowIndex: row.__rowIndex ?? index }))
+            }
+        };
+
+        fs.mkdirSync(this.campaignDir(record.id), { recursive: true });
+        this.writeRecord(record);
+        return record;
+    }
+
+    load(id: string): CampaignRecord {
+        const record = readJson<CampaignRecord | null>(path.join(this.campaignDir(id), RECORD_FILE), null);
+        if (!record) {
+            throw new Error(`Campaign not found: ${id}`);
+        }
+        return { ...record, options: { ...record.options, data: reviveRows(record.options.data) } };
+    }
+
+    append(id: string, entry: JournalEntry): void {
+        fs.appendFileSync(path.join(this.campaignDir(id), JOURNAL_FILE), JSON.stringify(entry) + '\n');
+    }
+
+    private readLines<T>(id: string, fileName: string): T[] {
+        const filePath = path.join(this.campaignDir(id), fileName);
+        if (!fs.existsSync(filePath)) {
+            return [];
+        }
+
+        const lines: T[] = [];
+        for (const line of fs.readFileSync(filePath, 'utf8').split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                lines.push(JSON.parse(line) as T);
+            } catch {
+                // A crash mid-write can leave a truncated last line; for the journal that row counts as unsent
+            }
+        }
+        return lines;
+    }
+
+    readEntries(id: string): JournalEntry[] {
+        return this.readLines<JournalEntry>(id, JOURNAL_FILE);
+    }
+
+    // Receipts are kept apart from the row outcomes, which stay one line per send
+    appendReceipt(receipt: DeliveryReceipt): void {
+        const { rowIndex, messageId, status, timestamp } = receipt;
+        fs.appendFileSync(path.join(this.campaignDir(receipt.campaignId), RECEIPTS_FILE), JSON.stringify({ rowIndex, messageId, status, timestamp }) + '\n');
+    }
+
+    // Latest delivery status per row; rows without receipts are not included
+    readDeliveryStatuses(id: string): Map<number, DeliveryStatus> {
+        const statuses = new Map<number, DeliveryStatus>();
+        for (const receipt of this.readLines<Omit<DeliveryReceipt, 'campaignId'>>(id, RECEIPTS_FILE)) {
+            statuses.set(receipt.rowIndex, receipt.status);
+        }
+        return statuses;
+    }
+
+    setStatus(id: string, status: CampaignStatus): void {
+        const record = this.load(id);
+        record.status = status;
+        record.updatedAt = new Date().toISOString();
+        this.writeRecord(record);
+    }
+
+    /**
+     * Rows that have not been processed yet. Rows skipped by a cancel are included,
+     * rows that were sent or failed are not, so continuing never messages anyone twice.
+     */
+    getPendingRows(id: string): ExcelRow[] {
+        const record = this.load(id);
+        const latest = new Map<number, JournalEntry>();
+        for (const entry of this.readEntries(id)) {
+            latest.set(entry.rowIndex, entry);
+        }
+
+        return record.options.data.filter(row => {
+            const entry = latest.get(row.__rowIndex as number);
+            return !entry || entry.status === 'cancelled';
+        });
+    }
+
+    summarize(id: string): CampaignSummary {
+        const record = this.load(id);
+        const pending = this.getPendingRows(id).length;
+
+        return {
+            id: record.id,
+            createdAt: record.createdAt,
+            updatedAt: record.updatedAt,
+            status: record.status,
+            filePath: record.options.filePath,
+            sheetName: record.options.sheetName,
+            total: record.options.data.length,
+            processed: record.options.data.length - pending,
+            pending,
+            accountId: record.options.accountId
+        };
+    }
+
+    list(): CampaignSummary[] {
+        return fs.readdirSync(this.baseDir, { withFileTypes: true })
+            .filter(entry => entry.isDirectory() && fs.existsSync(path.join(this.baseDir, entry.name, RECORD_FILE)))
+            .map(entry => this.summarize(entry.name))
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    listInterrupted(): CampaignSummary[] {
+        return this.list().filter(summary => summary.status === 'interrupted' && summary.pending > 0);
+    }
+
+    /**
+     * Campaigns still marked running when the app starts were cut short by a crash
+     */
+    recoverInterrupted(): void {
+        for (const summary of this.list()) {
+            if (summary.status === 'running') {
+                this.setStatus(summary.id, 'interrupted');
+            }
+        }
+    }
+
+    remove(id: string): void {
+        fs.rmSync(this.campaignDir(id), { recursive: true, force: true });
+    }
+}
+
+export default CampaignJournal;
@@ -0,0 +1,137 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { ScheduledCampaign, SendMessagesOptions } from './src/types.js';
+import { readJson, reviveRows, writeJson } from './json-store.js';
+
+// How often due schedules are checked; coarse on purpose so sleep or clock changes can't skip one
+const CHECK_INTERVAL = 15 * 1000;
+
+export interface ScheduleRunner {
+    // Whether a campaign can start right now (its account connected and not sending anything else)
+    canStart: (schedule: ScheduledCampaign) => boolean;
+    // Run the campaign to completion and return its journal campaign ID
+    start: (schedule: ScheduledCampaign) => Promise<string>;
+}
+
+/**
+ * Keeps scheduled campaigns on disk and starts each one once its start time has passed.
+ * Due campaigns wait until the runner can start them, so a schedule that comes due while
+ * WhatsApp is disconnected starts as soon as it reconnects. Emits 'updated' on every change.
+ */
+class CampaignScheduler extends EventEmitter {
+    private filePath: string;
+    private runner: ScheduleRunner;
+    private schedules: ScheduledCampaign[];
+    private timer: NodeJS.Timeout | null;
+
+    constructor(filePath: string, runner: ScheduleRunner) {
+        super();
+        this.filePath = filePath;
+        this.runner = runner;
+        this.schedules = readJson<ScheduledCampaign[]>(filePath, [])
+            .map(schedule => ({ ...schedule, options: { ...schedule.options, data: reviveRows(schedule.options.data) } }));
+        this.timer = null;
+
+        // A schedule still marked running was cut short when the app last closed
+        for (const schedule of this.schedules) {
+            if (schedule.status === 'running') {
+                schedule.status = 'failed';
+                schedule.error = 'The app closed while this campaign was running; continue it from Interrupted Campaigns';
+            }
+        }
+        this.save();
+    }
+
+    private save(): void {
+        writeJson(this.filePath, this.schedules);
+        this.emit('updated', this.list());
+    }
+
+    start(): void {
+        if (this.timer) return;
+        this.timer = setInterval(() => this.checkDue(), CHECK_INTERVAL);
+        this.checkDue();
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    // Schedules without their row data, which the renderer does not need
+    list(): ScheduledCampaign[] {
+        return this.schedules
+            .map(schedule => ({ ...schedule, options: { ...schedule.options, data: [] }, rowCount: schedule.options.data.length }))
+            .sort((a, b) => a.startAt.localeCompare(b.startAt));
+    }
+
+    add(options: SendMessagesOptions, startAt: Date): ScheduledCampaign {
+        if (isNaN(startAt.getTime())) {
+            throw new Error('Invalid start time');
+        }
+        if (startAt.getTime() <= Date.now()) {
+            throw new Error('Start time must be in the future');
+        }
+
+        const schedule: ScheduledCampaign = {
+            id: randomUUID(),
+            createdAt: new Date().toISOString(),
+            startAt: startAt.toISOString(),
+            status: 'scheduled',
+            rowCount: options.data.length,
+            options
+        };
+        this.schedules.push(schedule);
+        this.save();
+        return schedule;
+    }
+
+    cancel(id: string): void {
+        const schedule = this.schedules.find(s => s.id === id);
+        if (!schedule) {
+            throw new Error(`Scheduled campaign not found: ${id}`);
+        }
+        if (schedule.status !== 'scheduled') {
+            throw new Error(`Only campaigns that have not started can be cancelled`);
+        }
+        schedule.status = 'cancelled';
+        this.save();
+    }
+
+    remove(id: string): void {
+        const schedule = this.schedules.find(s => s.id === id);
+        if (schedule?.status === 'running') {
+            throw new Error('A running campaign cannot be removed');
+        }
+        this.schedules = this.schedules.filter(s => s.id !== id);
+        this.save();
+    }
+
+    private checkDue(): void {
+        // A campaign waiting for its account doesn't hold up campaigns of other accounts
+        const due = this.schedules.find(schedule =>
+            schedule.status === 'scheduled' && new Date(schedule.startAt).getTime() <= Date.now() && this.runner.canStart(schedule)
+        );
+        if (!due) {
+            return;
+        }
+
+        due.status = 'running';
+        this.save();
+
+        this.runner.start(due)
+            .then(campaignId => {
+                due.status = 'completed';
+                due.campaignId = campaignId;
+            })
+            .catch(error => {
+                due.status = 'failed';
+                due.error = error instanceof Error ? error.message : 'Unknown error';
+            })
+            .finally(() => this.save());
+    }
+}
+
+export default CampaignScheduler;
@@ -0,0 +1,108 @@
+import fs from 'fs';
+import { ExcelRow, RowValidation, SendMessagesOptions, ValidationIssue, ValidationReport } from './src/types.js';
+import { parseTemplate, renderTemplate } from './template-engine.js';
+import { normalizePhoneNumber } from './phone-number.js';
+
+// WhatsApp accepts much longer texts, but messages past this are cut off in previews and read poorly
+export const DEFAULT_MAX_MESSAGE_LENGTH = 4096;
+
+export interface ValidationOptions {
+    maxMessageLength?: number;
+}
+
+function validatePhone(phone: ExcelRow[string], defaultCountryCode?: string): { e164: string | null; issue?: ValidationIssue } {
+    if (!phone || phone instanceof Date) {
+        return { e164: null, issue: { code: 'missing-phone', severity: 'error', message: 'No phone number' } };
+    }
+
+    const normalized = normalizePhoneNumber(phone, defaultCountryCode);
+    if (!normalized.valid) {
+        return { e164: null, issue: { code: 'invalid-phone', severity: 'error', message: normalized.reason } };
+    }
+
+    return { e164: normalized.e164 };
+}
+
+function validateAttachment(source: string): ValidationIssue | null {
+    if (!source) {
+        return { code: 'missing-attachment', severity: 'error', message: 'Attachment path is empty' };
+    }
+    // URLs are only fetched while sending
+    if (!/^https?:\/\//i.test(source) && !fs.existsSync(source)) {
+        return { code: 'missing-attachment', severity: 'error', message: `Attachment not found: ${source}` };
+    }
+    return null;
+}
+
+/**
+ * Dry run of a campaign: render every row and collect the problems that would
+ * otherwise only show up while sending. Nothing is sent.
+ */
+export function validateCampaign(options: SendMessagesOptions, validationOptions: ValidationOptions = {}): ValidationReport {
+    const { data, phoneColumn, template, defaultCountryCode, attachment } = options;
+    const maxMessageLength = validationOptions.maxMessageLength ?? DEFAULT_MAX_MESSAGE_LENGTH;
+
+    // Throws on template syntax errors, which affect every row
+    parseTemplate(template);
+
+    const firstRowByPhone = new Map<string, number>();
+    const rows: RowValidation[] = data.map((row, index) => {
+        const rowIndex = row.__rowIndex ?? index;
+        const issues: ValidationIssue[] = [];
+
+        const { e164, issue: phoneIssue } = validatePhone(row[phoneColumn], defaultCountryCode);
+        if (phoneIssue) {
+            issues.push(phoneIssue);
+        } else if (e164 && (options.dedupe ?? 'none') === 'none') {
+            // With a dedupe strategy the extra rows are handled when sending, so they are not flagged
+            const firstRow = firstRowByPhone.get(e164);
+            if (firstRow !== undefined) {
+                issues.push({ code: 'duplicate-phone', severity: 'warning', message: `Same recipient as row ${firstRow + 1}` });
+            } else {
+                firstRowByPhone.set(e164, rowIndex);
+            }
+        }
+
+        const { text, unresolved } = renderTemplate(template, row);
+        if (unresolved.length > 0) {
+            issues.push({
+                code: 'unresolved-placeholder',
+                severity: 'warning',
+                message: `Unresolved placeholders: ${unresolved.map(col => `{${col}}`).join(', ')}`
+            });
+        }
+
+        if (attachment) {
+            const attachmentIssue = validateAttachment(renderTemplate(attachment, row).text.trim());
+            if (attachmentIssue) {
+                issues.push(attachmentIssue);
+            }
+        }
+
+        // An attachment can go out without a caption, but a text message needs text
+        if (!text.trim() && !attachment) {
+            issues.push({ code: 'empty-message', severity: 'error', message: 'Rendered message is empty' });
+        } else if (text.length > maxMessageLength) {
+            issues.push({
+                code: 'message-too-long',
+                severity: 'error',
+                message: `Message is ${text.length} characters (limit ${maxMessageLength})`
+            });
+        }
+
+        return {
+            rowIndex,
+            phone: row[phoneColumn] && !(row[phoneColumn] instanceof Date) ? String(row[phoneColumn]) : 'N/A',
+            message: text,
+            issues
+        };
+    });
+
+    const flagged = rows.filter(row => row.issues.length > 0);
+    return {
+        total: rows.length,
+        flagged: flagged.length,
+        errors: flagged.filter(row => row.issues.some(issue => issue.severity === 'error')).length,
+        rows
+    };
+}
@@ -0,0 +1,95 @@
+import { DeliveryReceipt, DeliveryStatus, MessageAckEvent, SendMessageDetail } from './src/types.js';
+import { readJson, writeJson } from './json-store.js';
+
+// Receipts for messages older than this are ignored
+const TRACKING_RETENTION = 7 * 24 * 60 * 60 * 1000;
+
+// Acknowledgements can arrive out of order, so a status only ever moves up this ranking.
+// A later delivery overrides an earlier error, WhatsApp retries on its own.
+const STATUS_RANK: Record<DeliveryStatus, number> = {
+    sent: 0,
+    failed: 1,
+    delivered: 2,
+    read: 3
+};
+
+interface TrackedMessage {
+    campaignId: string;
+    // Rows merged into one message share its receipts
+    rowIndexes: number[];
+    status: DeliveryStatus;
+    sentAt: string;
+}
+
+/**
+ * Links WhatsApp message IDs to the campaign rows they were sent for, so delivery and read
+ * receipts that come in later (possibly after a restart) can be filed under the right row.
+ */
+class DeliveryTracker {
+    private filePath: string;
+    private messages: Record<string, TrackedMessage>;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+        this.messages = readJson<Record<string, TrackedMessage>>(filePath, {});
+    }
+
+    private save(): void {
+        writeJson(this.filePath, this.messages);
+    }
+
+    track(campaignId: string, detail: SendMessageDetail): void {
+        if (detail.status !== 'success' || !detail.messageId) {
+            return;
+        }
+
+        const tracked = this.messages[detail.messageId];
+        if (tracked) {
+            if (!tracked.rowIndexes.includes(detail.rowIndex)) {
+                tracked.rowIndexes.push(detail.rowIndex);
+            }
+        } else {
+            this.messages[detail.messageId] = {
+                campaignId,
+                rowIndexes: [detail.rowIndex],
+                status: 'sent',
+                sentAt: detail.timestamp
+            };
+        }
+        this.save();
+    }
+
+    /**
+     * Apply an acknowledgement. Returns a receipt per affected row, or nothing when the message
+     * is not a tracked campaign message or the status did not move forward.
+     */
+    update(ack: MessageAckEvent): DeliveryReceipt[] {
+        const tracked = this.messages[ack.messageId];
+        if (!tracked || STATUS_RANK[ack.status] <= STATUS_RANK[tracked.status]) {
+            return [];
+        }
+
+        tracked.status = ack.status;
+        this.save();
+        return tracked.rowIndexes.map(rowIndex => ({
+            campaignId: tracked.campaignId,
+            rowIndex,
+            messageId: ack.messageId,
+            status: ack.status,
+            timestamp: ack.timestamp
+        }));
+    }
+
+    // Stop tracking messages too old to still get receipts
+    prune(): void {
+        const cutoff = Date.now() - TRACKING_RETENTION;
+        for (const [messageId, tracked] of Object.entries(this.messages)) {
+            if (new Date(tracked.sentAt).getTime() < cutoff) {
+                delete this.messages[messageId];
+            }
+        }
+        this.save();
+    }
+}
+
+export default DeliveryTracker;
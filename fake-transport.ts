@@ -0,0 +1,170 @@
+import { EventEmitter } from 'events';
+import { DeliveryStatus } from './src/types.js';
+import { CreatedGroup, MessagingTransport, OutgoingMedia, SentMessage, TransportMessage } from './messaging-transport.js';
+
+export interface FakeSentMessage {
+    id: string;
+    chatId: string;
+    text?: string;
+    media?: OutgoingMedia;
+    caption?: string;
+    timestamp: Date;
+}
+
+export interface FakeGroup extends CreatedGroup {
+    participants: string[];
+}
+
+/**
+ * In-memory stand-in for WhatsApp, so the whole campaign flow can run without a phone or a
+ * browser. It records everything sent through it, and lets a test script what WhatsApp would
+ * do: QR logins, numbers without an account, failing sends, incoming replies, receipts and
+ * disconnects.
+ *
+ * Every number has an account unless it was passed to `unregister`.
+ */
+class FakeTransport extends EventEmitter implements MessagingTransport {
+    readonly sent: FakeSentMessage[];
+    readonly groups: FakeGroup[];
+    private connected: boolean;
+    // The next connection shows a QR code and waits for simulateQrScan
+    private qrPending: boolean;
+    private unregistered: Set<string>;
+    // Errors thrown by the next sends, in order
+    private pendingFailures: string[];
+    // Errors thrown by every send to a chat
+    private chatFailures: Map<string, string>;
+    private nextId: number;
+
+    constructor() {
+        super();
+        this.sent = [];
+        this.groups = [];
+        this.connected = false;
+        this.qrPending = false;
+        this.unregistered = new Set();
+        this.pendingFailures = [];
+        this.chatFailures = new Map();
+        this.nextId = 1;
+    }
+
+    async initialize(): Promise<void> {
+        if (this.qrPending) {
+            this.emit('qr', `FAKE-QR-${this.nextId++}`);
+            return;
+        }
+        this.logIn();
+    }
+
+    private logIn(): void {
+        this.connected = true;
+        this.emit('loading_screen', 100, 'WhatsApp');
+        this.emit('authenticated');
+        this.emit('ready');
+    }
+
+    async destroy(): Promise<void> {
+        this.connected = false;
+    }
+
+    private record(message: Omit<FakeSentMessage, 'id' | 'timestamp'>): SentMessage {
+        if (!this.connected) {
+            throw new Error('WhatsApp client not initialized');
+        }
+        const error = this.pendingFailures.shift() ?? this.chatFailures.get(message.chatId);
+        if (error) {
+            throw new Error(error);
+        }
+
+        const id = `true_${message.chatId}_FAKE${this.nextId++}`;
+        this.sent.push({ ...message, id, timestamp: new Date() });
+        return { id };
+    }
+
+    async sendText(chatId: string, text: string): Promise<SentMessage> {
+        return this.record({ chatId, text });
+    }
+
+    async sendMedia(chatId: string, media: OutgoingMedia, caption?: string): Promise<SentMessage> {
+        return this.record({ chatId, media, caption });
+    }
+
+    async loadMedia(source: string): Promise<OutgoingMedia> {
+        return {
+            mimetype: 'application/octet-stream',
+            data: Buffer.from(source).toString('base64'),
+            filename: source.split(/[\\/]/).pop() ?? null
+        };
+    }
+
+    async lookupNumber(number: string): Promise<string | null> {
+        if (!this.connected) {
+            throw new Error('WhatsApp client not initialized');
+        }
+        return this.unregistered.has(number) ? null : `${number}@c.us`;
+    }
+
+    async createGroup(name: string, participants: string[]): Promise<CreatedGroup> {
+        if (!this.connected) {
+            throw new Error('WhatsApp client not initialized');
+        }
+        const group: FakeGroup = { id: `FAKE${this.nextId++}@g.us`, name, participants };
+        this.groups.push(group);
+        return { id: group.id, name: group.name };
+    }
+
+    // Numbers (digits only) that lookups report as having no WhatsApp account
+    unregister(...numbers: string[]): void {
+        for (const number of numbers) {
+            this.unregistered.add(number);
+        }
+    }
+
+    // Make the next `count` sends fail with `error`
+    failNext(error: string, count: number = 1): void {
+        for (let i = 0; i < count; i++) {
+            this.pendingFailures.push(error);
+        }
+    }
+
+    // Make every send to a chat fail with `error`, or succeed again when `error` is null
+    failChat(chatId: string, error: string | null): void {
+        if (error === null) {
+            this.chatFailures.delete(chatId);
+        } else {
+            this.chatFailures.set(chatId, error);
+        }
+    }
+
+    // Deliver a message from a number (digits only) as if they had written to us
+    simulateIncoming(number: string, body: string, hasMedia: boolean = false): void {
+        const message: TransportMessage = { chatId: `${number}@c.us`, number, body, hasMedia, timestamp: new Date() };
+        this.emit('message', message);
+    }
+
+    simulateAck(messageId: string, status: DeliveryStatus): void {
+        this.emit('message_ack', messageId, status);
+    }
+
+    // Make the next connection wait for a QR scan, as on a first login
+    requireQrScan(): void {
+        this.qrPending = true;
+    }
+
+    simulateQrScan(): void {
+        this.qrPending = false;
+        this.logIn();
+    }
+
+    simulateDisconnect(reason: string = 'NAVIGATION'): void {
+        this.connected = false;
+        this.emit('disconnected', reason);
+    }
+
+    // Messages sent to a chat, oldest first
+    sentTo(chatId: string): FakeSentMessage[] {
+        return this.sent.filter(message => message.chatId === chatId);
+    }
+}
+
+export default FakeTransport;
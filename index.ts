@@ -1,171 +1,344 @@
-import pkg from 'whatsapp-web.js';
-import type { Client as ClientType } from 'whatsapp-web.js';
-const { Client, LocalAuth } = pkg;
 import * as qrcode from 'qrcode-terminal';
-import XLSX from 'xlsx';
 import * as readlineSync from 'readline-sync';
 import * as fs from 'fs';
-
-interface ExcelRow {
-    [key: string]: any;
+import path from 'path';
+import { parseArgs } from 'util';
+import { cosmiconfig } from 'cosmiconfig';
+import WhatsAppHandler from './whatsapp-handler.js';
+import WhatsAppWebTransport from './whatsapp-web-transport.js';
+import { Logger } from './messaging-transport.js';
+import { parseTemplate } from './template-engine.js';
+import { ConnectionState, ExcelRow, ProgressData, RowStatus, SendMessagesResults } from './src/types.js';
+
+/**
+ * Campaign settings for a non-interactive run, from flags or a JSON/YAML campaign file
+ */
+interface CampaignConfig {
+    file?: string;
+    sheet?: string;
+    // Column name, or its position starting at 1
+    phoneColumn?: string | number;
+    template?: string;
+    templateFile?: string;
+    // Seconds between messages
+    delay?: number;
+    // Seconds to wait for WhatsApp to connect
+    connectTimeout?: number;
+    // Calling code for numbers written without one, e.g. '91'
+    defaultCountryCode?: string;
+    // Send without confirmation; without it a non-interactive run only previews the messages
+    yes?: boolean;
 }
 
-interface SendResult {
-    success: boolean;
+interface RowResult {
+    // Row number in the sheet, counting the header as row 1
+    row: number;
+    phone: string;
+    status: RowStatus | 'pending';
     error?: string;
+    message?: string;
 }
 
-class WhatsAppAutomation {
-    private client: ClientType | null;
-    private isReady: boolean;
+interface RunSummary {
+    status: 'completed' | 'partial' | 'preview' | 'error';
+    exitCode: number;
+    total: number;
+    sent: number;
+    failed: number;
+    error?: string;
+    results: RowResult[];
+}
 
-    constructor() {
-        this.client = null;
-        this.isReady = false;
-    }
+// Exit codes of a non-interactive run, for cron jobs and scripts
+const EXIT_CODES = {
+    // Every message was sent, or the preview succeeded
+    ok: 0,
+    // The campaign could not run, e.g. the Excel file could not be read
+    error: 1,
+    // Invalid flags or campaign file
+    usage: 2,
+    // The campaign ran but some messages failed
+    partial: 3,
+    // WhatsApp did not connect in time or authentication failed
+    notConnected: 4,
+    // Ctrl+C while neither connecting nor sending, which have their own outcome
+    interrupted: 130
+} as const;
+
+const DEFAULT_CONNECT_TIMEOUT = 120;
+
+const USAGE = `Usage: npm run cli -- [options]
+
+Without options the CLI asks for everything interactively.
+
+Options:
+  --config <path>           JSON or YAML campaign file (same keys as the options below, in camelCase)
+  --file <path>             Excel file with the contacts
+  --sheet <name>            Worksheet to read (default: the first one)
+  --phone-column <column>   Column with phone numbers, by name or position starting at 1
+  --template-file <path>    Text file with the message template
+  --delay <seconds>         Delay between messages (default: 5)
+  --connect-timeout <secs>  How long to wait for WhatsApp to connect (default: ${DEFAULT_CONNECT_TIMEOUT})
+  --default-country-code <code>
+                            Calling code for numbers written without one, e.g. 91
+  --yes                     Send without confirmation; otherwise only preview the messages
+  --help                    Show this help
+
+A JSON summary is written to stdout, progress to stderr.
+Exit codes: 0 done, 1 error, 2 invalid options, 3 some messages failed, 4 not connected,
+130 interrupted`;
+
+class UsageError extends Error {}
+
+function printSummary(summary: RunSummary): void {
+    console.log(JSON.stringify(summary, null, 2));
+}
 
-    /**
-     * Initialize WhatsApp client with authentication
-     */
-    async initialize(): Promise<void> {
-        console.log('\n=== WhatsApp Automation Tool ===\n');
-        console.log('Initializing WhatsApp client...\n');
-
-        // Create client with local authentication to persist session
-        this.client = new Client({
-            authStrategy: new LocalAuth({
-                dataPath: './.wwebjs_auth'
+/**
+ * Command-line front end on WhatsAppHandler, so the CLI reads sheets, renders templates,
+ * normalizes numbers and sends exactly like the desktop app
+ */
+class WhatsAppAutomation {
+    private handler: WhatsAppHandler;
+    // Non-interactive runs keep stdout for the JSON summary and run the browser headless
+    private headless: boolean;
+    // Stops waiting for WhatsApp to connect, set while a non-interactive run is connecting
+    private abortConnect: ((error: Error) => void) | null;
+
+    constructor(headless: boolean = false) {
+        this.headless = headless;
+        this.abortConnect = null;
+        // Diagnostics from the handler and the browser go to stderr too, next to the progress
+        const logger: Logger = headless ? { log: console.error, error: console.error } : console;
+        this.handler = new WhatsAppHandler({
+            transport: new WhatsAppWebTransport({
+                authPath: path.resolve('.wwebjs_auth'),
+                headless,
+                logger
             }),
-            puppeteer: {
-                headless: false,
-                args: ['--no-sandbox']
-            }
+            logger
         });
 
         // Handle QR code generation
-        this.client.on('qr', (qr: string) => {
-            console.log('\nPlease scan this QR code with your phone:\n');
-            qrcode.generate(qr, { small: true });
-            console.log('\nOpen WhatsApp on your phone > Settings > Linked Devices > Link a Device');
+        this.handler.on('qr', (qr: string) => {
+            this.log('\nPlease scan this QR code with your phone:\n');
+            qrcode.generate(qr, { small: true }, code => this.log(code));
+            this.log('\nOpen WhatsApp on your phone > Settings > Linked Devices > Link a Device');
         });
 
-        // Handle authentication
-        this.client.on('authenticated', () => {
-            console.log('\n✓ Authentication successful!');
+        this.handler.on('authenticated', () => {
+            this.log('\n✓ Authentication successful!');
         });
 
-        // Handle ready state
-        this.client.on('ready', () => {
-            console.log('\n✓ WhatsApp client is ready!');
-            this.isReady = true;
+        this.handler.on('connection_state', (state: ConnectionState) => {
+            if (state.phase === 'syncing' && state.percent !== undefined) {
+                this.log(`Loading chats: ${state.percent}%`);
+            }
         });
 
-        // Handle authentication failure
-        this.client.on('auth_failure', (msg: string) => {
-            console.error('\n✗ Authentication failure:', msg);
-            process.exit(1);
+        this.handler.on('ready', () => {
+            this.log('\n✓ WhatsApp client is ready!');
         });
 
-        // Handle disconnection
-        this.client.on('disconnected', (reason: string) => {
-            console.log('\n⚠ Client was disconnected:', reason);
+        this.handler.on('disconnected', (reason: string) => {
+            this.log('\n⚠ Client was disconnected:', reason);
         });
 
-        // Initialize the client
-        await this.client.initialize();
-
-        // Wait for ready state
-        return new Promise<void>((resolve) => {
-            const checkReady = setInterval(() => {
-                if (this.isReady) {
-                    clearInterval(checkReady);
-                    resolve();
-                }
-            }, 1000);
+        // Ctrl+C while sending cancels the remaining rows instead of killing the process,
+        // so the outcome of the rows already sent is still reported. A non-interactive run
+        // always ends with its JSON summary, so it stops connecting rather than exiting, and
+        // prints one before exiting at any other point.
+        process.on('SIGINT', () => {
+            if (this.handler.getCampaignState() !== 'idle') {
+                this.log('\nCancelling, the remaining rows will not be sent...');
+                this.handler.cancelCampaign();
+            } else if (this.headless && this.abortConnect) {
+                this.log('\nInterrupted, no messages will be sent...');
+                this.abortConnect(new Error('Interrupted before WhatsApp connected'));
+            } else if (this.headless) {
+                printSummary({
+                    status: 'error',
+                    exitCode: EXIT_CODES.interrupted,
+                    total: 0,
+                    sent: 0,
+                    failed: 0,
+                    error: 'Interrupted',
+                    results: []
+                });
+                process.exit(EXIT_CODES.interrupted);
+            } else {
+                process.exit(130);
+            }
         });
     }
 
+    private log(...args: unknown[]): void {
+        if (this.headless) {
+            console.error(...args);
+        } else {
+            console.log(...args);
+        }
+    }
+
     /**
-     * Read Excel file and return data as array of objects
+     * Connect to WhatsApp. With a timeout, rejects when the client is not ready within that
+     * many seconds; rejects right away when authentication fails or a step of connecting
+     * times out.
      */
-    readExcelFile(filePath: string): ExcelRow[] {
-        try {
-            if (!fs.existsSync(filePath)) {
-                throw new Error(`File not found: ${filePath}`);
-            }
-
-            console.log(`\nReading Excel file: ${filePath}`);
-            const workbook = XLSX.readFile(filePath);
-            const sheetName = workbook.SheetNames[0];
-            const worksheet = workbook.Sheets[sheetName];
-            const data = XLSX.utils.sheet_to_json(worksheet) as ExcelRow[];
-
-            console.log(`✓ Loaded ${data.length} rows from Excel file`);
-            
-            // Display column names
-            if (data.length > 0) {
-                console.log('\nAvailable columns:');
-                Object.keys(data[0]).forEach((col, index) => {
-                    console.log(`  ${index + 1}. ${col}`);
-                });
+    async initialize(connectTimeout?: number): Promise<void> {
+        this.log('\n=== WhatsApp Automation Tool ===\n');
+        this.log('Initializing WhatsApp client...\n');
+
+        let timer: NodeJS.Timeout | undefined;
+        const failure = new Promise<never>((_, reject) => {
+            this.abortConnect = reject;
+            if (connectTimeout !== undefined) {
+                timer = setTimeout(() => {
+                    reject(new Error(`WhatsApp did not connect within ${connectTimeout} seconds`));
+                }, connectTimeout * 1000);
             }
+        });
 
-            return data;
-        } catch (error) {
-            console.error(`\n✗ Error reading Excel file: ${error instanceof Error ? error.message : 'Unknown error'}`);
-            throw error;
+        try {
+            await Promise.race([this.handler.initialize(), failure]);
+        } finally {
+            clearTimeout(timer);
+            this.abortConnect = null;
         }
     }
 
     /**
-     * Format message template with row data
+     * Read Excel file and list its columns
      */
-    formatMessage(template: string, rowData: ExcelRow): string {
-        let message = template;
-        
-        // Replace all {ColumnName} placeholders with actual values
-        Object.keys(rowData).forEach(column => {
-            const placeholder = `{${column}}`;
-            const value = rowData[column] !== undefined && rowData[column] !== null 
-                ? rowData[column].toString() 
-                : '';
-            message = message.split(placeholder).join(value);
-        });
+    readExcelFile(filePath: string, sheet?: string): ExcelRow[] {
+        this.log(`\nReading Excel file: ${filePath}`);
+        const data = this.handler.readExcelFile(filePath, sheet ?? null);
+        this.log(`✓ Loaded ${data.length} rows from Excel file`);
+
+        const columns = getColumns(data);
+        if (columns.length > 0) {
+            this.log('\nAvailable columns:');
+            columns.forEach((col, index) => {
+                this.log(`  ${index + 1}. ${col}`);
+            });
+        }
 
-        return message;
+        return data;
     }
 
     /**
-     * Format phone number for WhatsApp (add country code if needed)
+     * Send the rendered template to every row
      */
-    formatPhoneNumber(phone: string | number): string {
-        // Remove all non-digit characters
-        const cleaned = phone.toString().replace(/\D/g, '');
-        
-        // If number doesn't start with country code, you might want to add one
-        // This example assumes numbers are already in correct format
-        // Adjust based on your needs
-        
-        return cleaned + '@c.us';
+    private async sendAll(data: ExcelRow[], phoneColumn: string, template: string, delay: number, defaultCountryCode?: string): Promise<SendMessagesResults> {
+        return this.handler.sendMessages({ data, phoneColumn, template, delay, defaultCountryCode }, {
+            onProgress: (progress: ProgressData) => {
+                const prefix = `[${progress.current}/${progress.total}]`;
+                if (progress.status === 'success') {
+                    this.log(`${prefix} ✓ Sent to ${progress.phone}`);
+                } else if (progress.status === 'waiting' && progress.waitUntil) {
+                    this.log(`${prefix} Sending limit reached, resuming at ${new Date(progress.waitUntil).toLocaleTimeString()}`);
+                } else if (progress.status === 'retrying') {
+                    this.log(`${prefix} Attempt ${progress.attempt} for ${progress.phone} failed (${progress.error}), retrying`);
+                } else if (progress.status !== 'sending') {
+                    this.log(`${prefix} ✗ ${progress.phone}: ${progress.status}${progress.error ? ` (${progress.error})` : ''}`);
+                }
+            }
+        });
     }
 
     /**
-     * Send a message to a WhatsApp number
+     * Non-interactive flow: everything comes from the campaign config and the outcome is
+     * returned as a summary instead of printed. Without `yes` nothing is sent and the
+     * summary previews the rendered messages.
      */
-    async sendMessage(phone: string | number, message: string): Promise<SendResult> {
-        try {
-            if (!this.client) {
-                throw new Error('WhatsApp client not initialized');
+    async runHeadless(config: CampaignConfig): Promise<RunSummary> {
+        if (!config.file) {
+            throw new UsageError('Missing --file (or "file" in the campaign file)');
+        }
+        if (config.phoneColumn === undefined || config.phoneColumn === '') {
+            throw new UsageError('Missing --phone-column (or "phoneColumn" in the campaign file)');
+        }
+
+        let template = config.template;
+        if (config.templateFile) {
+            if (!fs.existsSync(config.templateFile)) {
+                throw new UsageError(`Template file not found: ${config.templateFile}`);
             }
-            const chatId = this.formatPhoneNumber(phone);
-            await this.client.sendMessage(chatId, message);
-            return { success: true };
+            // Editors usually end files with a newline that isn't part of the message
+            template = fs.readFileSync(config.templateFile, 'utf8').trimEnd();
+        }
+        if (!template?.trim()) {
+            throw new UsageError('Missing message template: use --template-file (or "template"/"templateFile" in the campaign file)');
+        }
+        // Throws on unbalanced {#if} blocks and the like before anything is sent
+        parseTemplate(template);
+
+        const delay = config.delay ?? 5;
+        if (!Number.isFinite(delay) || delay < 0) {
+            throw new UsageError('--delay must be a number of seconds');
+        }
+
+        const defaultCountryCode = config.defaultCountryCode?.toString().trim().replace(/^\+/, '') || undefined;
+        if (defaultCountryCode !== undefined && !/^\d{1,4}$/.test(defaultCountryCode)) {
+            throw new UsageError('--default-country-code must be a calling code such as 91');
+        }
+
+        const data = this.readExcelFile(config.file, config.sheet);
+        const phoneColumn = resolveColumn(getColumns(data), config.phoneColumn);
+
+        if (!config.yes) {
+            this.log('\nPreview only, pass --yes (or "yes": true) to send these messages');
+            return {
+                status: 'preview',
+                exitCode: EXIT_CODES.ok,
+                total: data.length,
+                sent: 0,
+                failed: 0,
+                results: data.map((row, index) => ({
+                    row: (row.__rowIndex ?? index) + 2,
+                    phone: row[phoneColumn]?.toString() ?? '',
+                    status: 'pending',
+                    message: this.handler.formatMessage(template, row)
+                }))
+            };
+        }
+
+        try {
+            await this.initialize(config.connectTimeout ?? DEFAULT_CONNECT_TIMEOUT);
         } catch (error) {
-            return { 
-                success: false, 
-                error: error instanceof Error ? error.message : 'Unknown error'
+            await this.handler.destroy().catch(() => undefined);
+            return {
+                status: 'error',
+                exitCode: EXIT_CODES.notConnected,
+                total: data.length,
+                sent: 0,
+                failed: 0,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                results: []
             };
         }
+
+        try {
+            const results = await this.sendAll(data, phoneColumn, template, delay, defaultCountryCode);
+            // Rows the handler skipped on purpose, duplicates for example, are not failures
+            const failed = results.failed + results.unregistered + results.cancelled;
+            return {
+                status: failed > 0 ? 'partial' : 'completed',
+                exitCode: failed > 0 ? EXIT_CODES.partial : EXIT_CODES.ok,
+                total: results.total,
+                sent: results.success,
+                failed,
+                results: results.details.map(detail => ({
+                    row: detail.rowIndex + 2,
+                    phone: detail.phone,
+                    status: detail.status,
+                    error: detail.error,
+                    message: detail.message
+                }))
+            };
+        } finally {
+            await this.handler.destroy();
+        }
     }
 
     /**
@@ -184,22 +357,31 @@ class WhatsAppAutomation {
                 `Enter Excel file path (press Enter for '${defaultPath}'): `
             ) || defaultPath;
 
+            // Pick a worksheet when the workbook has more than one
+            const sheets = this.handler.getExcelSheets(filePath);
+            let sheet = sheets[0];
+            if (sheets.length > 1) {
+                const sheetIndex = readlineSync.keyInSelect(sheets, 'Which worksheet?', { cancel: false });
+                sheet = sheets[sheetIndex];
+            }
+
             // Read Excel data
-            const data = this.readExcelFile(filePath);
+            const data = this.readExcelFile(filePath, sheet);
 
             if (data.length === 0) {
                 console.log('\n✗ No data found in Excel file');
-                process.exit(0);
+                return;
             }
 
             // Get phone column
-            const columns = Object.keys(data[0]);
+            const columns = getColumns(data);
             console.log('\nWhich column contains phone numbers?');
             const phoneColumnIndex = readlineSync.questionInt('Enter column number: ') - 1;
             
             if (phoneColumnIndex < 0 || phoneColumnIndex >= columns.length) {
                 console.log('\n✗ Invalid column number');
-                process.exit(1);
+                process.exitCode = 1;
+                return;
             }
 
             const phoneColumn = columns[phoneColumnIndex];
@@ -228,7 +410,8 @@ class WhatsAppAutomation {
 
             if (!template.trim()) {
                 console.log('\n✗ Message template cannot be empty');
-                process.exit(1);
+                process.exitCode = 1;
+                return;
             }
 
             console.log('\n✓ Message template saved');
@@ -250,69 +433,160 @@ class WhatsAppAutomation {
             
             if (!confirm) {
                 console.log('\n✗ Operation cancelled');
-                process.exit(0);
+                return;
             }
 
             // Send messages
             console.log('\n\n=== Sending Messages ===\n');
-            
-            let successCount = 0;
-            let failCount = 0;
-
-            for (let i = 0; i < data.length; i++) {
-                const row = data[i];
-                const phone = row[phoneColumn];
-                
-                if (!phone) {
-                    console.log(`[${i + 1}/${data.length}] ✗ Skipping row - no phone number`);
-                    failCount++;
-                    continue;
-                }
-
-                const message = this.formatMessage(template, row);
-                
-                console.log(`[${i + 1}/${data.length}] Sending to ${phone}...`);
-                
-                const result = await this.sendMessage(phone, message);
-                
-                if (result.success) {
-                    console.log(`[${i + 1}/${data.length}] ✓ Sent successfully`);
-                    successCount++;
-                } else {
-                    console.log(`[${i + 1}/${data.length}] ✗ Failed: ${result.error}`);
-                    failCount++;
-                }
 
-                // Delay before next message (except for last message)
-                if (i < data.length - 1) {
-                    await new Promise(resolve => setTimeout(resolve, delay * 1000));
-                }
-            }
+            const results = await this.sendAll(data, phoneColumn, template, delay);
 
             // Summary
             console.log('\n\n=== Campaign Complete ===');
-            console.log(`✓ Successfully sent: ${successCount}`);
-            console.log(`✗ Failed: ${failCount}`);
-            console.log(`Total: ${data.length}\n`);
+            console.log(`✓ Successfully sent: ${results.success}`);
+            console.log(`✗ Failed: ${results.failed}`);
+            if (results.unregistered > 0) console.log(`✗ Not on WhatsApp: ${results.unregistered}`);
+            if (results.cancelled > 0) console.log(`- Cancelled: ${results.cancelled}`);
+            console.log(`Total: ${results.total}\n`);
 
         } catch (error) {
             console.error('\n✗ An error occurred:', error instanceof Error ? error.message : 'Unknown error');
             if (error instanceof Error) {
                 console.error(error.stack);
             }
+            process.exitCode = 1;
         } finally {
             // Close the client
-            if (this.client) {
-                await this.client.destroy();
-            }
-            process.exit(0);
+            await this.handler.destroy();
+        }
+    }
+}
+
+/**
+ * Column names of the sheet, without the row index the handler adds
+ */
+function getColumns(data: ExcelRow[]): string[] {
+    return Object.keys(data[0] ?? {}).filter(column => column !== '__rowIndex');
+}
+
+/**
+ * Resolve a column given by name or by its position starting at 1
+ */
+function resolveColumn(columns: string[], column: string | number): string {
+    const name = column.toString().trim();
+    if (columns.includes(name)) {
+        return name;
+    }
+    if (/^\d+$/.test(name)) {
+        const position = parseInt(name, 10);
+        if (position >= 1 && position <= columns.length) {
+            return columns[position - 1];
+        }
+    }
+    throw new UsageError(`Phone column '${name}' not found. Available columns: ${columns.join(', ')}`);
+}
+
+/**
+ * Merge the campaign file, if any, with the flags; flags win.
+ * Paths in a campaign file are relative to the file itself.
+ */
+async function loadConfig(values: Record<string, string | boolean | undefined>): Promise<CampaignConfig> {
+    let config: CampaignConfig = {};
+
+    if (typeof values.config === 'string') {
+        if (!fs.existsSync(values.config)) {
+            throw new UsageError(`Campaign file not found: ${values.config}`);
+        }
+        const result = await cosmiconfig('whatsapp-campaign').load(values.config);
+        if (result && !result.isEmpty) {
+            const baseDir = path.dirname(result.filepath);
+            config = { ...result.config };
+            if (config.file) config.file = path.resolve(baseDir, config.file);
+            if (config.templateFile) config.templateFile = path.resolve(baseDir, config.templateFile);
+        }
+    }
+
+    const number = (flag: string): number | undefined => {
+        const value = values[flag];
+        if (typeof value !== 'string') return undefined;
+        const parsed = Number(value);
+        if (!Number.isFinite(parsed)) {
+            throw new UsageError(`--${flag} must be a number`);
         }
+        return parsed;
+    };
+
+    return {
+        ...config,
+        file: typeof values.file === 'string' ? values.file : config.file,
+        sheet: typeof values.sheet === 'string' ? values.sheet : config.sheet,
+        phoneColumn: typeof values['phone-column'] === 'string' ? values['phone-column'] : config.phoneColumn,
+        templateFile: typeof values['template-file'] === 'string' ? values['template-file'] : config.templateFile,
+        delay: number('delay') ?? config.delay,
+        connectTimeout: number('connect-timeout') ?? config.connectTimeout,
+        defaultCountryCode: typeof values['default-country-code'] === 'string' ? values['default-country-code'] : config.defaultCountryCode,
+        yes: values.yes === true || config.yes === true
+    };
+}
+
+async function main(): Promise<number> {
+    let values: Record<string, string | boolean | undefined>;
+    try {
+        ({ values } = parseArgs({
+            options: {
+                config: { type: 'string' },
+                file: { type: 'string' },
+                sheet: { type: 'string' },
+                'phone-column': { type: 'string' },
+                'template-file': { type: 'string' },
+                delay: { type: 'string' },
+                'connect-timeout': { type: 'string' },
+                'default-country-code': { type: 'string' },
+                yes: { type: 'boolean', short: 'y' },
+                help: { type: 'boolean', short: 'h' }
+            }
+        }));
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : 'Unknown error');
+        console.error(USAGE);
+        return EXIT_CODES.usage;
+    }
+
+    if (values.help) {
+        console.log(USAGE);
+        return EXIT_CODES.ok;
     }
+
+    // No flags: the original interactive prompts
+    if (Object.keys(values).length === 0) {
+        await new WhatsAppAutomation().run();
+        return typeof process.exitCode === 'number' ? process.exitCode : EXIT_CODES.ok;
+    }
+
+    let summary: RunSummary;
+    try {
+        summary = await new WhatsAppAutomation(true).runHeadless(await loadConfig(values));
+    } catch (error) {
+        const isUsageError = error instanceof UsageError;
+        summary = {
+            status: 'error',
+            exitCode: isUsageError ? EXIT_CODES.usage : EXIT_CODES.error,
+            total: 0,
+            sent: 0,
+            failed: 0,
+            error: error instanceof Error ? error.message : 'Unknown error',
+            results: []
+        };
+    }
+
+    printSummary(summary);
+    return summary.exitCode;
 }
 
 // Run the automation
-const automation = new WhatsAppAutomation();
-automation.run().catch(error => {
+main().then(exitCode => {
+    process.exit(exitCode);
+}).catch(error => {
     console.error('Fatal error:', error);
     process.exit(1);
 });
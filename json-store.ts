@@ -0,0 +1,34 @@
+import fs from 'fs';
+import path from 'path';
+import { ExcelRow } from './src/types.js';
+
+// Matches the format JSON.stringify produces for Date values
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+// Excel rows keep Date cells as Date objects; turn them back into Dates after reading rows from disk.
+// Only row cells are revived, so timestamps stored as strings elsewhere stay strings.
+export function reviveRows(rows: ExcelRow[]): ExcelRow[] {
+    return rows.map(row => {
+        const revived: ExcelRow = {};
+        for (const [key, value] of Object.entries(row)) {
+            revived[key] = typeof value === 'string' && ISO_DATE_PATTERN.test(value) ? new Date(value) : value;
+        }
+        return revived;
+    });
+}
+
+export function readJson<T>(filePath: string, fallback: T): T {
+    if (!fs.existsSync(filePath)) {
+        return fallback;
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+}
+
+// Write then rename so a crash never leaves a half-written file behind
+export function writeJson(filePath: string, data: unknown): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tempPath, filePath);
+}
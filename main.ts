@@ -1,15 +1,50 @@
 import { app, BrowserWindow, ipcMain, dialog, IpcMainInvokeEvent } from 'electron';
 import path from 'path';
+import fs from 'fs';
 import { fileURLToPath } from 'url';
 import WhatsAppHandler from './whatsapp-handler.js';
-import { ExcelRow, SendMessagesOptions, ProgressData } from './src/types.js';
+import WhatsAppWebTransport from './whatsapp-web-transport.js';
+import CampaignJournal from './campaign-journal.js';
+import CampaignScheduler from './campaign-scheduler.js';
+import MessageQueue from './message-queue.js';
+import SendLedger from './send-ledger.js';
+import SuppressionList from './suppression-list.js';
+import ReplyInbox from './reply-inbox.js';
+import AutoResponder from './auto-responder.js';
+import DeliveryTracker from './delivery-tracker.js';
+import AccountRegistry, { DEFAULT_ACCOUNT_ID } from './account-registry.js';
+import AccountBalancer from './account-balancer.js';
+import { exportResults } from './results-export.js';
+import { validateCampaign } from './campaign-validator.js';
+import { estimateFinish, nextSendSlot, resolvePacing } from './send-pacing.js';
+import { describeDedupe, groupRecipients } from './recipient-dedupe.js';
+import { DEFAULT_OPT_OUT_SETTINGS } from './opt-out.js';
+import { readJson, writeJson } from './json-store.js';
+import { ExcelRow, SendMessagesOptions, SendMessagesResults, ProgressData, CampaignState, CampaignRecord, CampaignSummary, ExportFormat, TemplateIssue, ValidationReport, CreateGroupResult, RecipientCheck, ScheduledCampaign, SendMessageDetail, QueuedMessage, QueueMessagesResult, PacingPolicy, DedupeDecision, SuppressedContact, RejectedPhone, OptOutSettings, IncomingMessage, InboxCampaign, InboxReply, AutoReplyRule, MessageAckEvent, WhatsAppAccount, ConnectionState } from './src/types.js';
 
 // ES module equivalent of __dirname
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 let mainWindow: BrowserWindow | null;
-let whatsappHandler: WhatsAppHandler | null;
+// One handler per account that was connected, keyed by account ID
+const whatsappHandlers = new Map<string, WhatsAppHandler>();
+// WhatsApp's sending limits apply per number, so every account counts its own sends
+const sendLedgers = new Map<string, SendLedger>();
+// Sending account of each campaign, so the message queue doesn't reload campaigns on every check
+const campaignAccounts = new Map<string, string>();
+// Accounts a spread campaign is running on, under each of them
+const campaignPeers = new Map<string, string[]>();
+let accountRegistry: AccountRegistry | null = null;
+let accountBalancer: AccountBalancer | null = null;
+let campaignJournal: CampaignJournal | null = null;
+let campaignScheduler: CampaignScheduler | null = null;
+let messageQueue: MessageQueue | null = null;
+let suppressionList: SuppressionList | null = null;
+let replyInbox: ReplyInbox | null = null;
+let autoResponder: AutoResponder | null = null;
+let deliveryTracker: DeliveryTracker | null = null;
+let optOutSettings: OptOutSettings = DEFAULT_OPT_OUT_SETTINGS;
 
 // Get the correct base path for resources
 function getResourcePath(...paths: string[]): string {
@@ -22,6 +57,102 @@ function getResourcePath(...paths: string[]): string {
     }
 }
 
+function getOptOutSettingsPath(): string {
+    return path.join(app.getPath('userData'), 'opt-out-settings.json');
+}
+
+function getAuthPath(): string {
+    return path.join(app.getPath('userData'), 'wwebjs_auth');
+}
+
+// The default account keeps the session and ledger files it had before accounts were added
+function getSessionClientId(accountId: string): string | undefined {
+    return accountId === DEFAULT_ACCOUNT_ID ? undefined : accountId;
+}
+
+function getSendLedger(accountId: string): SendLedger {
+    let ledger = sendLedgers.get(accountId);
+    if (!ledger) {
+        const fileName = accountId === DEFAULT_ACCOUNT_ID ? 'send-ledger.json' : `send-ledger-${accountId}.json`;
+        ledger = new SendLedger(path.join(app.getPath('userData'), fileName));
+        sendLedgers.set(accountId, ledger);
+    }
+    return ledger;
+}
+
+function getHandler(accountId: string = DEFAULT_ACCOUNT_ID): WhatsAppHandler {
+    const handler = whatsappHandlers.get(accountId);
+    if (!handler) {
+        throw new Error('WhatsApp handler not initialized');
+    }
+    return handler;
+}
+
+// Reading sheets and checking templates work the same on every account
+function getAnyHandler(): WhatsAppHandler {
+    const [handler] = whatsappHandlers.values();
+    if (!handler) {
+        throw new Error('WhatsApp handler not initialized');
+    }
+    return handler;
+}
+
+function getDailyCap(accountId: string): number | undefined {
+    return accountRegistry?.list().find(account => account.id === accountId)?.dailyCap;
+}
+
+// Whether an account is connected and not sending another campaign
+function canSendFrom(accountId: string = DEFAULT_ACCOUNT_ID): boolean {
+    const handler = whatsappHandlers.get(accountId);
+    return !!handler && handler.isConnected() && handler.getCampaignState() === 'idle';
+}
+
+// Fail before a campaign is journaled or marked running when it has no account to send from,
+// so a campaign that never sent anything doesn't show up as interrupted
+function assertCanSend(options: SendMessagesOptions): void {
+    if (options.accountPool?.length) {
+        if (!options.accountPool.some(accountId => canSendFrom(accountId))) {
+            throw new Error('None of the campaign\'s accounts is connected and free');
+        }
+        return;
+    }
+
+    const accountId = options.accountId ?? DEFAULT_ACCOUNT_ID;
+    if (!canSendFrom(accountId)) {
+        throw new Error(getHandler(accountId).isConnected() ? 'A campaign is already running on this account' : 'WhatsApp is not connected');
+    }
+}
+
+function getCampaignAccount(campaignId: string): string {
+    let accountId = campaignAccounts.get(campaignId);
+    if (!accountId) {
+        if (!campaignJournal) {
+            throw new Error('Campaign journal not initialized');
+        }
+        accountId = campaignJournal.load(campaignId).options.accountId ?? DEFAULT_ACCOUNT_ID;
+        campaignAccounts.set(campaignId, accountId);
+    }
+    return accountId;
+}
+
+async function destroyHandler(accountId: string): Promise<void> {
+    const handler = whatsappHandlers.get(accountId);
+    if (handler) {
+        whatsappHandlers.delete(accountId);
+        await handler.destroy();
+    }
+}
+
+async function destroyHandlers(): Promise<void> {
+    for (const accountId of [...whatsappHandlers.keys()]) {
+        try {
+            await destroyHandler(accountId);
+        } catch (error) {
+            console.error('Error destroying WhatsApp handler:', error);
+        }
+    }
+}
+
 function createWindow(): void {
     mainWindow = new BrowserWindow({
         width: 1400,
@@ -50,18 +181,101 @@ function createWindow(): void {
     });
 }
 
-app.whenReady().then(createWindow);
+app.whenReady().then(() => {
+    campaignJournal = new CampaignJournal(path.join(app.getPath('userData'), 'campaigns'));
+    campaignJournal.recoverInterrupted();
 
-app.on('window-all-closed', async () => {
-    // Cleanup WhatsApp handler before quitting
-    if (whatsappHandler) {
-        try {
-            await whatsappHandler.destroy();
-        } catch (error) {
-            console.error('Error destroying WhatsApp handler:', error);
+    accountRegistry = new AccountRegistry(path.join(app.getPath('userData'), 'accounts.json'));
+    accountRegistry.on('updated', (accounts: WhatsAppAccount[]) => {
+        mainWindow?.webContents.send('accounts-updated', accounts);
+    });
+    accountBalancer = new AccountBalancer(path.join(app.getPath('userData'), 'recipient-accounts.json'));
+
+    suppressionList = new SuppressionList(path.join(app.getPath('userData'), 'suppression-list.json'));
+    suppressionList.on('updated', (contacts: SuppressedContact[]) => {
+        mainWindow?.webContents.send('suppression-list-updated', contacts);
+    });
+    optOutSettings = readJson<OptOutSettings>(getOptOutSettingsPath(), DEFAULT_OPT_OUT_SETTINGS);
+
+    replyInbox = new ReplyInbox(path.join(app.getPath('userData'), 'inbox.json'));
+    replyInbox.prune();
+    replyInbox.on('updated', () => {
+        mainWindow?.webContents.send('inbox-updated');
+    });
+
+    deliveryTracker = new DeliveryTracker(path.join(app.getPath('userData'), 'delivery.json'));
+    deliveryTracker.prune();
+
+    autoResponder = new AutoResponder(path.join(app.getPath('userData'), 'auto-replies.json'));
+    autoResponder.on('updated', (rules: AutoReplyRule[]) => {
+        mainWindow?.webContents.send('auto-reply-rules-updated', rules);
+    });
+
+    campaignScheduler = new CampaignScheduler(path.join(app.getPath('userData'), 'schedules.json'), {
+        canStart: (schedule: ScheduledCampaign) => canSendFrom(schedule.options.accountId),
+        start: async (schedule: ScheduledCampaign) => {
+            if (!campaignJournal) {
+                throw new Error('Campaign journal not initialized');
+            }
+            console.log('Starting scheduled campaign', schedule.id);
+            const record = campaignJournal.create(schedule.options);
+            await runJournaledCampaign(record, record.options.data);
+            return record.id;
         }
-        whatsappHandler = null;
-    }
+    });
+    campaignScheduler.on('updated', (schedules: ScheduledCampaign[]) => {
+        mainWindow?.webContents.send('schedules-updated', schedules);
+    });
+    campaignScheduler.start();
+
+    messageQueue = new MessageQueue(path.join(app.getPath('userData'), 'message-queue.json'), {
+        canStart: (campaignId: string) => {
+            try {
+                return canSendFrom(getCampaignAccount(campaignId));
+            } catch {
+                // The campaign was discarded; let the send fail so the queue marks its messages failed
+                return true;
+            }
+        },
+        send: async (campaignId: string, rowIndexes: number[]) => {
+            if (!campaignJournal) {
+                throw new Error('Campaign journal not initialized');
+            }
+            const record = campaignJournal.load(campaignId);
+            const rows = record.options.data.filter(row => rowIndexes.includes(row.__rowIndex as number));
+
+            // Rows processed before an error still count, so they are not queued again
+            const details: SendMessageDetail[] = [];
+            try {
+                await sendJournaled(record, rows, detail => details.push(detail));
+            } catch (error) {
+                console.error('Queued messages stopped early:', error);
+            }
+            return details;
+        },
+        finish: (campaignId: string) => {
+            try {
+                campaignJournal?.setStatus(campaignId, 'completed');
+            } catch (error) {
+                // The campaign may have been discarded in the meantime
+                console.error('Error finishing queued campaign:', error);
+            }
+        }
+    });
+    messageQueue.on('updated', (messages: QueuedMessage[]) => {
+        mainWindow?.webContents.send('message-queue-updated', messages);
+    });
+    messageQueue.start();
+
+    createWindow();
+});
+
+app.on('window-all-closed', async () => {
+    campaignScheduler?.stop();
+    messageQueue?.stop();
+
+    // Cleanup WhatsApp handlers before quitting
+    await destroyHandlers();
     
     // Quit on all platforms (including macOS in this case since it's not a standard app)
     app.quit();
@@ -75,16 +289,12 @@ app.on('activate', () => {
 
 // Graceful shutdown on process termination
 process.on('SIGTERM', async () => {
-    if (whatsappHandler) {
-        await whatsappHandler.destroy();
-    }
+    await destroyHandlers();
     app.quit();
 });
 
 process.on('SIGINT', async () => {
-    if (whatsappHandler) {
-        await whatsappHandler.destroy();
-    }
+    await destroyHandlers();
     app.quit();
 });
 
@@ -115,40 +325,90 @@ ipcMain.handle('select-file', async (): Promise<string | null> => {
     return null;
 });
 
-// Initialize WhatsApp
-ipcMain.handle('init-whatsapp', async (): Promise<{ success: boolean; error?: string }> => {
+// Handle attachment selection
+ipcMain.handle('select-attachment', async (): Promise<string | null> => {
+    if (!mainWindow) return null;
+
+    const result = await dialog.showOpenDialog(mainWindow, {
+        properties: ['openFile'],
+        filters: [
+            { name: 'Images and Documents', extensions: ['pdf', 'jpg', 'jpeg', 'png', 'webp', 'gif', 'doc', 'docx', 'xls', 'xlsx'] },
+            { name: 'All Files', extensions: ['*'] }
+        ]
+    });
+
+    if (!result.canceled && result.filePaths.length > 0) {
+        return result.filePaths[0];
+    }
+    return null;
+});
+
+// Initialize WhatsApp for one account; other accounts stay connected
+ipcMain.handle('init-whatsapp', async (_: IpcMainInvokeEvent, accountId: string = DEFAULT_ACCOUNT_ID): Promise<{ success: boolean; error?: string }> => {
     try {
-        console.log('Init WhatsApp handler...');
-        whatsappHandler = new WhatsAppHandler();
+        if (!accountRegistry) {
+            throw new Error('Accounts not initialized');
+        }
+        accountRegistry.get(accountId);
+
+        // Start over, e.g. after an authentication failure
+        await destroyHandler(accountId).catch(error => {
+            console.error('Error destroying previous WhatsApp handler:', error);
+        });
+
+        console.log('Init WhatsApp handler for account', accountId);
+        const whatsappHandler = new WhatsAppHandler({
+            transport: new WhatsAppWebTransport({
+                // Use userData path for auth storage - works in both dev and production
+                authPath: getAuthPath(),
+                clientId: getSessionClientId(accountId)
+            }),
+            sendLedger: getSendLedger(accountId),
+            suppressionList: suppressionList ?? undefined
+        });
+        whatsappHandler.setOptOutSettings(optOutSettings);
+        whatsappHandlers.set(accountId, whatsappHandler);
         
         if (!mainWindow) {
             throw new Error('Main window not initialized');
         }
 
-        // Forward events to renderer
+        // Forward events to renderer, tagged with the account they belong to
         whatsappHandler.on('qr', (qr: string) => {
             console.log('Forwarding QR to renderer');
-            mainWindow?.webContents.send('whatsapp-qr', qr);
+            mainWindow?.webContents.send('whatsapp-qr', accountId, qr);
         });
 
-        whatsappHandler.on('authenticated', () => {
-            console.log('Forwarding authenticated to renderer');
-            mainWindow?.webContents.send('whatsapp-authenticated');
+        // Every step of connecting, reconnecting and failing, with loading progress and errors
+        whatsappHandler.on('connection_state', (state: ConnectionState) => {
+            console.log(`WhatsApp ${accountId}: ${state.phase}${state.percent !== undefined ? ` ${state.percent}%` : ''}${state.error ? ` (${state.error})` : ''}`);
+            mainWindow?.webContents.send('whatsapp-connection-state', accountId, state);
         });
 
-        whatsappHandler.on('ready', () => {
-            console.log('Forwarding ready to renderer');
-            mainWindow?.webContents.send('whatsapp-ready');
+        whatsappHandler.on('campaign_state', (state: CampaignState) => {
+            mainWindow?.webContents.send('campaign-state', accountId, state);
         });
 
-        whatsappHandler.on('auth_failure', (msg: string) => {
-            console.log('Auth failure:', msg);
-            mainWindow?.webContents.send('whatsapp-auth-failure', msg);
+        whatsappHandler.on('message_ack', (ack: MessageAckEvent) => {
+            for (const receipt of deliveryTracker?.update(ack) ?? []) {
+                try {
+                    campaignJournal?.appendReceipt(receipt);
+                } catch (error) {
+                    // The campaign was discarded; the renderer still gets the receipt
+                    console.error('Error saving delivery receipt:', error);
+                }
+                mainWindow?.webContents.send('delivery-receipt', receipt);
+            }
         });
 
-        whatsappHandler.on('disconnected', (reason: string) => {
-            console.log('Disconnected:', reason);
-            mainWindow?.webContents.send('whatsapp-disconnected', reason);
+        // Auto-replies go out from the account the reply came in on
+        whatsappHandler.on('message_received', (message: IncomingMessage) => {
+            const reply = replyInbox?.addReply(message);
+            if (reply && !message.optedOut) {
+                answerReply(reply, accountId, whatsappHandler).catch(error => {
+                    console.error('Error sending auto-reply:', error);
+                });
+            }
         });
 
         console.log('Starting WhatsApp initialization...');
@@ -167,10 +427,7 @@ ipcMain.handle('init-whatsapp', async (): Promise<{ success: boolean; error?: st
 // Read Excel file
 ipcMain.handle('get-excel-sheets', async (_: IpcMainInvokeEvent, filePath: string): Promise<{ success: boolean; sheets?: string[]; error?: string }> => {
     try {
-        if (!whatsappHandler) {
-            throw new Error('WhatsApp handler not initialized');
-        }
-        const sheets = whatsappHandler.getExcelSheets(filePath);
+        const sheets = getAnyHandler().getExcelSheets(filePath);
         return { success: true, sheets };
     } catch (error) {
         return { 
@@ -182,10 +439,7 @@ ipcMain.handle('get-excel-sheets', async (_: IpcMainInvokeEvent, filePath: strin
 
 ipcMain.handle('read-excel', async (_: IpcMainInvokeEvent, filePath: string, sheetName?: string): Promise<{ success: boolean; data?: ExcelRow[]; error?: string }> => {
     try {
-        if (!whatsappHandler) {
-            throw new Error('WhatsApp handler not initialized');
-        }
-        const data = whatsappHandler.readExcelFile(filePath, sheetName || null);
+        const data = getAnyHandler().readExcelFile(filePath, sheetName || null);
         return { success: true, data };
     } catch (error) {
         return { 
@@ -195,26 +449,264 @@ ipcMain.handle('read-excel', async (_: IpcMainInvokeEvent, filePath: string, she
     }
 });
 
+// Answer a reply to a campaign message with the first matching auto-reply rule, if any.
+// Auto-replies count against the account's sends like campaign messages, under the
+// campaign's hourly and daily limits; when those are used up the reply goes unanswered.
+async function answerReply(reply: InboxReply, accountId: string, whatsappHandler: WhatsAppHandler): Promise<void> {
+    if (!autoResponder || !campaignJournal || suppressionList?.has(reply.e164)) {
+        return;
+    }
+
+    const record = campaignJournal.load(reply.campaignId);
+    const row = record.options.data.find(candidate => candidate.__rowIndex === reply.rowIndex);
+    const answer = row && autoResponder.respond(reply, row);
+    if (!answer) {
+        return;
+    }
+
+    const ledger = getSendLedger(accountId);
+    const slot = nextSendSlot(ledger.recent(), resolvePacing(withDailyCap(record.options, accountId)), Date.now());
+    if (slot > Date.now()) {
+        console.log(`Not auto-replying to ${reply.e164}: sending limits reached until ${new Date(slot).toISOString()}`);
+        return;
+    }
+
+    const result = await whatsappHandler.sendMessage(reply.e164, answer.text);
+    if (result.status !== 'success') {
+        throw new Error(result.error ?? `Failed to send auto-reply to ${reply.e164}`);
+    }
+    ledger.record();
+    autoResponder.markReplied(answer.rule.id, reply.e164);
+}
+
+// Rows for each account a campaign sends from: its own account, or the connected and free accounts of its pool
+function splitCampaign(options: SendMessagesOptions, data: ExcelRow[]): Map<string, ExcelRow[]> {
+    if (!options.accountPool?.length) {
+        return new Map([[options.accountId ?? DEFAULT_ACCOUNT_ID, data]]);
+    }
+    if (!accountBalancer) {
+        throw new Error('Account balancer not initialized');
+    }
+
+    const pool = options.accountPool
+        .filter(accountId => canSendFrom(accountId))
+        .map(accountId => {
+            const dailyCap = getDailyCap(accountId);
+            return { accountId, capacity: dailyCap ? Math.max(0, dailyCap - getSendLedger(accountId).recent().length) : null };
+        });
+    if (pool.length === 0) {
+        throw new Error('None of the campaign\'s accounts is connected and free');
+    }
+    return accountBalancer.assign(data, options.phoneColumn, pool, options.balancing ?? 'round-robin', options.defaultCountryCode);
+}
+
+// An account's daily cap holds even when the campaign allows more
+function withDailyCap(options: SendMessagesOptions, accountId: string): SendMessagesOptions {
+    const dailyCap = getDailyCap(accountId);
+    if (!dailyCap) {
+        return options;
+    }
+    const pacing = resolvePacing(options);
+    return { ...options, pacing: { ...pacing, maxPerDay: pacing.maxPerDay > 0 ? Math.min(pacing.maxPerDay, dailyCap) : dailyCap } };
+}
+
+function mergeResults(parts: SendMessagesResults[]): SendMessagesResults {
+    const merged: SendMessagesResults = { total: 0, success: 0, failed: 0, cancelled: 0, unregistered: 0, duplicate: 0, suppressed: 0, details: [] };
+    for (const part of parts) {
+        merged.total += part.total;
+        merged.success += part.success;
+        merged.failed += part.failed;
+        merged.cancelled += part.cancelled;
+        merged.unregistered += part.unregistered;
+        merged.duplicate += part.duplicate;
+        merged.suppressed += part.suppressed;
+        merged.details.push(...part.details);
+    }
+    merged.details.sort((a, b) => a.rowIndex - b.rowIndex);
+    return merged;
+}
+
+// Send rows of a campaign, appending every row outcome to its journal. A campaign with an
+// account pool is split over its accounts, which send their shares side by side.
+async function sendJournaled(record: CampaignRecord, data: ExcelRow[], onResult?: (detail: SendMessageDetail) => void): Promise<SendMessagesResults> {
+    if (!campaignJournal) {
+        throw new Error('Campaign journal not initialized');
+    }
+
+    const journal = campaignJournal;
+    // Progress is reported for the whole campaign under the account it was started from
+    const startedFrom = record.options.accountId ?? DEFAULT_ACCOUNT_ID;
+    const shares = splitCampaign(record.options, data);
+    const accountIds = [...shares.keys()];
+    const progressByAccount = new Map<string, number>();
+
+    // Only accounts that send a share are peers; the account it was started from may be
+    // running a campaign of its own, which its controls must keep reaching
+    for (const accountId of accountIds) {
+        campaignPeers.set(accountId, accountIds);
+    }
+    try {
+        const outcomes = await Promise.allSettled(accountIds.map(accountId =>
+            getHandler(accountId).sendMessages({ ...withDailyCap(record.options, accountId), data: shares.get(accountId) ?? [] }, {
+                onProgress: (progress: ProgressData) => {
+                    progressByAccount.set(accountId, progress.current);
+                    const current = [...progressByAccount.values()].reduce((sum, count) => sum + count, 0);
+                    mainWindow?.webContents.send('send-progress', startedFrom, { ...progress, current, total: data.length });
+                },
+                onResult: (sent: SendMessageDetail) => {
+                    const detail: SendMessageDetail = { ...sent, accountId };
+                    const { rowIndex, phone, status, error, message, attachment, messageId, timestamp } = detail;
+                    journal.append(record.id, { rowIndex, phone, status, error, message, attachment, messageId, accountId, timestamp });
+                    if (detail.status === 'success' && detail.e164) {
+                        accountBalancer?.remember(detail.e164, accountId);
+                    }
+                    replyInbox?.trackSent(record.id, detail);
+                    deliveryTracker?.track(record.id, detail);
+                    onResult?.(detail);
+                }
+            })
+        ));
+
+        // Wait for every share before failing, so no account is still sending when the campaign is marked interrupted
+        const failed = outcomes.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+        if (failed) {
+            throw failed.reason;
+        }
+        return mergeResults(outcomes.map(outcome => (outcome as PromiseFulfilledResult<SendMessagesResults>).value));
+    } finally {
+        for (const accountId of accountIds) {
+            if (campaignPeers.get(accountId) === accountIds) {
+                campaignPeers.delete(accountId);
+            }
+        }
+    }
+}
+
+// Pause, resume or cancel the campaign an account is sending, on every account it is spread over.
+// Accounts that already finished their share are skipped.
+function controlCampaign(accountId: string, control: (handler: WhatsAppHandler) => void): void {
+    const peers = campaignPeers.get(accountId) ?? [accountId];
+    const errors: unknown[] = [];
+    for (const peer of peers) {
+        try {
+            control(getHandler(peer));
+        } catch (error) {
+            errors.push(error);
+        }
+    }
+    if (errors.length === peers.length) {
+        throw errors[0];
+    }
+}
+
+// Run a campaign while journaling every row outcome so it can be continued after a crash
+async function runJournaledCampaign(record: CampaignRecord, data: ExcelRow[]): Promise<SendMessagesResults> {
+    try {
+        const results = await sendJournaled(record, data);
+        campaignJournal?.setStatus(record.id, results.cancelled > 0 ? 'cancelled' : 'completed');
+        return results;
+    } catch (error) {
+        campaignJournal?.setStatus(record.id, 'interrupted');
+        throw error;
+    }
+}
+
+// Check template placeholders against rows before sending
+ipcMain.handle('check-template', async (_: IpcMainInvokeEvent, template: string, data: ExcelRow[]): Promise<{ success: boolean; issues?: TemplateIssue[]; error?: string }> => {
+    try {
+        return { success: true, issues: getAnyHandler().checkTemplate(template, data) };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+// Check which recipients have a WhatsApp account
+ipcMain.handle('verify-recipients', async (_: IpcMainInvokeEvent, options: { data: ExcelRow[]; phoneColumn: string; defaultCountryCode?: string; accountId?: string }): Promise<{ success: boolean; checks?: RecipientCheck[]; error?: string }> => {
+    try {
+        const { data, phoneColumn, defaultCountryCode, accountId } = options;
+        const checks = await getHandler(accountId).verifyRecipients(data, phoneColumn, defaultCountryCode, (progress) => {
+            mainWindow?.webContents.send('verify-progress', progress);
+        });
+        return { success: true, checks };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+// Dry-run validation of a campaign before it starts
+ipcMain.handle('validate-campaign', async (_: IpcMainInvokeEvent, options: SendMessagesOptions): Promise<{ success: boolean; report?: ValidationReport; error?: string }> => {
+    try {
+        return { success: true, report: validateCampaign(options) };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+// Which rows share a phone number and which of them will get a message
+ipcMain.handle('preview-dedupe', async (_: IpcMainInvokeEvent, options: SendMessagesOptions): Promise<{ success: boolean; decisions?: DedupeDecision[]; error?: string }> => {
+    try {
+        const strategy = options.dedupe ?? 'none';
+        const groups = groupRecipients(options.data, options.phoneColumn, strategy, options.defaultCountryCode);
+        return { success: true, decisions: describeDedupe(groups, options.phoneColumn, strategy, options.defaultCountryCode) };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+// Estimated finish time of a campaign under a pacing policy, counting the account's recent sends against the limits
+ipcMain.handle('estimate-finish-time', async (_: IpcMainInvokeEvent, count: number, pacing: PacingPolicy, accountId: string = DEFAULT_ACCOUNT_ID): Promise<{ success: boolean; finishAt?: string; error?: string }> => {
+    try {
+        const policy = resolvePacing({ delay: pacing.minDelay, pacing });
+        const finishAt = estimateFinish(policy, count, getSendLedger(accountId).recent(), Date.now());
+        return { success: true, finishAt: new Date(finishAt).toISOString() };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
 // Send messages
-ipcMain.handle('send-messages', async (_: IpcMainInvokeEvent, options: SendMessagesOptions): Promise<{ success: boolean; results?: any; error?: string }> => {
+ipcMain.handle('send-messages', async (_: IpcMainInvokeEvent, options: SendMessagesOptions): Promise<{ success: boolean; campaignId?: string; results?: SendMessagesResults; error?: string }> => {
     try {
-        if (!whatsappHandler) {
-            throw new Error('WhatsApp handler not initialized');
+        if (!campaignJournal) {
+            throw new Error('Campaign journal not initialized');
         }
+        assertCanSend(options);
 
-        const { data, phoneColumn, template, delay } = options;
+        const record = campaignJournal.create(options);
+        const results = await runJournaledCampaign(record, record.options.data);
 
-        const results = await whatsappHandler.sendMessages(
-            data,
-            phoneColumn,
-            template,
-            delay,
-            (progress: ProgressData) => {
-                mainWindow?.webContents.send('send-progress', progress);
-            }
-        );
+        return { success: true, campaignId: record.id, results };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
 
-        return { success: true, results };
+// Scheduled campaigns
+ipcMain.handle('schedule-campaign', async (_: IpcMainInvokeEvent, options: SendMessagesOptions, startAt: string): Promise<{ success: boolean; schedule?: ScheduledCampaign; error?: string }> => {
+    try {
+        if (!campaignScheduler) {
+            throw new Error('Campaign scheduler not initialized');
+        }
+        const schedule = campaignScheduler.add(options, new Date(startAt));
+        return { success: true, schedule };
     } catch (error) {
         return {
             success: false,
@@ -223,23 +715,81 @@ ipcMain.handle('send-messages', async (_: IpcMainInvokeEvent, options: SendMessa
     }
 });
 
-// Create group
-ipcMain.handle('create-group', async (_: IpcMainInvokeEvent, options: { filePath: string; sheetName: string | null; phoneColumn: string; groupName: string }): Promise<{ success: boolean; groupId?: string; groupName?: string; error?: string }> => {
+ipcMain.handle('list-scheduled-campaigns', async (): Promise<{ success: boolean; schedules?: ScheduledCampaign[]; error?: string }> => {
     try {
-        if (!whatsappHandler) {
-            throw new Error('WhatsApp handler not initialized');
+        if (!campaignScheduler) {
+            throw new Error('Campaign scheduler not initialized');
         }
+        return { success: true, schedules: campaignScheduler.list() };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
 
-        const { filePath, sheetName, phoneColumn, groupName } = options;
+ipcMain.handle('cancel-scheduled-campaign', async (_: IpcMainInvokeEvent, scheduleId: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+        if (!campaignScheduler) {
+            throw new Error('Campaign scheduler not initialized');
+        }
+        campaignScheduler.cancel(scheduleId);
+        return { success: true };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
 
-        const result = await whatsappHandler.createGroupFromExcel(
-            filePath,
-            sheetName,
-            phoneColumn,
-            groupName
-        );
+ipcMain.handle('remove-scheduled-campaign', async (_: IpcMainInvokeEvent, scheduleId: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+        if (!campaignScheduler) {
+            throw new Error('Campaign scheduler not initialized');
+        }
+        campaignScheduler.remove(scheduleId);
+        return { success: true };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
 
-        return result;
+// Per-row send times
+ipcMain.handle('queue-messages', async (_: IpcMainInvokeEvent, options: SendMessagesOptions, sendAtColumn: string): Promise<QueueMessagesResult> => {
+    try {
+        if (!campaignJournal || !messageQueue) {
+            throw new Error('Message queue not initialized');
+        }
+
+        const record = campaignJournal.create(options);
+        campaignJournal.setStatus(record.id, 'queued');
+
+        const { queued, rejected } = messageQueue.enqueue(record.id, record.options.data, options.phoneColumn, sendAtColumn);
+        if (queued === 0) {
+            campaignJournal.remove(record.id);
+            throw new Error(`No rows have a valid send time in column '${sendAtColumn}'`);
+        }
+
+        return { success: true, campaignId: record.id, queued, rejected };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+ipcMain.handle('list-queued-messages', async (): Promise<{ success: boolean; messages?: QueuedMessage[]; error?: string }> => {
+    try {
+        if (!messageQueue) {
+            throw new Error('Message queue not initialized');
+        }
+        return { success: true, messages: messageQueue.list() };
     } catch (error) {
         return {
             success: false,
@@ -248,17 +798,504 @@ ipcMain.handle('create-group', async (_: IpcMainInvokeEvent, options: { filePath
     }
 });
 
-// Disconnect WhatsApp
-ipcMain.handle('disconnect-whatsapp', async (): Promise<{ success: boolean; error?: string }> => {
+ipcMain.handle('cancel-queued-message', async (_: IpcMainInvokeEvent, messageId: string): Promise<{ success: boolean; error?: string }> => {
     try {
-        if (whatsappHandler) {
-            await whatsappHandler.destroy();
-            whatsappHandler = null;
+        if (!messageQueue) {
+            throw new Error('Message queue not initialized');
         }
+        messageQueue.cancel(messageId);
         return { success: true };
     } catch (error) {
-        return { 
-            success: false, 
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+ipcMain.handle('cancel-queued-campaign', async (_: IpcMainInvokeEvent, campaignId: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+        if (!messageQueue) {
+            throw new Error('Message queue not initialized');
+        }
+        messageQueue.cancelCampaign(campaignId);
+        return { success: true };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+ipcMain.handle('clear-finished-queued-messages', async (): Promise<{ success: boolean; error?: string }> => {
+    try {
+        if (!messageQueue) {
+            throw new Error('Message queue not initialized');
+        }
+        messageQueue.clearFinished();
+        return { success: true };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+// Do-not-contact list
+ipcMain.handle('list-suppressed-contacts', async (): Promise<{ success: boolean; contacts?: SuppressedContact[]; error?: string }> => {
+    try {
+        if (!suppressionList) {
+            throw new Error('Do-not-contact list not initialized');
+        }
+        return { success: true, contacts: suppressionList.list() };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+ipcMain.handle('add-suppressed-contacts', async (_: IpcMainInvokeEvent, phones: string[], defaultCountryCode?: string, note?: string): Promise<{ success: boolean; added?: number; rejected?: RejectedPhone[]; error?: string }> => {
+    try {
+        if (!suppressionList) {
+            throw new Error('Do-not-contact list not initialized');
+        }
+        return { success: true, ...suppressionList.add(phones, 'manual', defaultCountryCode, note) };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+ipcMain.handle('remove-suppressed-contact', async (_: IpcMainInvokeEvent, e164: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+        if (!suppressionList) {
+            throw new Error('Do-not-contact list not initialized');
+        }
+        suppressionList.remove(e164);
+        return { success: true };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+ipcMain.handle('import-suppression-list', async (_: IpcMainInvokeEvent, defaultCountryCode?: string): Promise<{ success: boolean; added?: number; rejected?: RejectedPhone[]; error?: string }> => {
+    try {
+        if (!mainWindow || !suppressionList) {
+            throw new Error('Do-not-contact list not initialized');
+        }
+
+        const result = await dialog.showOpenDialog(mainWindow, {
+            properties: ['openFile'],
+            filters: [
+                { name: 'Excel or CSV Files', extensions: ['xlsx', 'xls', 'csv'] },
+                { name: 'All Files', extensions: ['*'] }
+            ]
+        });
+        if (result.canceled || result.filePaths.length === 0) {
+            return { success: false };
+        }
+
+        return { success: true, ...suppressionList.importFile(result.filePaths[0], defaultCountryCode) };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+// Opt-out replies
+ipcMain.handle('get-opt-out-settings', async (): Promise<{ success: boolean; settings?: OptOutSettings; error?: string }> => {
+    return { success: true, settings: optOutSettings };
+});
+
+ipcMain.handle('save-opt-out-settings', async (_: IpcMainInvokeEvent, settings: OptOutSettings): Promise<{ success: boolean; error?: string }> => {
+    try {
+        const keywords = settings.keywords.map(keyword => keyword.trim()).filter(Boolean);
+        if (settings.enabled && keywords.length === 0) {
+            throw new Error('Add at least one opt-out keyword');
+        }
+
+        optOutSettings = { ...settings, keywords };
+        writeJson(getOptOutSettingsPath(), optOutSettings);
+        for (const handler of whatsappHandlers.values()) {
+            handler.setOptOutSettings(optOutSettings);
+        }
+        return { success: true };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+// Auto-reply rules
+ipcMain.handle('list-auto-reply-rules', async (): Promise<{ success: boolean; rules?: AutoReplyRule[]; error?: string }> => {
+    try {
+        if (!autoResponder) {
+            throw new Error('Auto-responder not initialized');
+        }
+        return { success: true, rules: autoResponder.list() };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+ipcMain.handle('save-auto-reply-rule', async (_: IpcMainInvokeEvent, rule: Omit<AutoReplyRule, 'id'> & { id?: string }): Promise<{ success: boolean; rule?: AutoReplyRule; error?: string }> => {
+    try {
+        if (!autoResponder) {
+            throw new Error('Auto-responder not initialized');
+        }
+        return { success: true, rule: autoResponder.saveRule(rule) };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+ipcMain.handle('remove-auto-reply-rule', async (_: IpcMainInvokeEvent, ruleId: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+        if (!autoResponder) {
+            throw new Error('Auto-responder not initialized');
+        }
+        autoResponder.removeRule(ruleId);
+        return { success: true };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+// Every journaled campaign, newest first, e.g. to scope auto-reply rules to one campaign
+ipcMain.handle('list-campaigns', async (): Promise<{ success: boolean; campaigns?: CampaignSummary[]; error?: string }> => {
+    try {
+        if (!campaignJournal) {
+            throw new Error('Campaign journal not initialized');
+        }
+        return { success: true, campaigns: campaignJournal.list() };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+// Replies to campaign messages, grouped by campaign with the most recent reply first
+ipcMain.handle('list-inbox', async (): Promise<{ success: boolean; campaigns?: InboxCampaign[]; error?: string }> => {
+    try {
+        if (!replyInbox) {
+            throw new Error('Inbox not initialized');
+        }
+
+        const campaigns = new Map<string, InboxCampaign>();
+        for (const reply of replyInbox.list()) {
+            let campaign = campaigns.get(reply.campaignId);
+            if (!campaign) {
+                campaign = { campaignId: reply.campaignId, unread: 0, replies: [] };
+                try {
+                    const summary = campaignJournal?.summarize(reply.campaignId);
+                    campaign = { ...campaign, createdAt: summary?.createdAt, filePath: summary?.filePath, sheetName: summary?.sheetName };
+                } catch {
+                    // The campaign was discarded; its replies are still listed
+                }
+                campaigns.set(reply.campaignId, campaign);
+            }
+            campaign.replies.push(reply);
+            if (!reply.read) campaign.unread++;
+        }
+        return { success: true, campaigns: [...campaigns.values()] };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+ipcMain.handle('mark-inbox-read', async (_: IpcMainInvokeEvent, campaignId: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+        if (!replyInbox) {
+            throw new Error('Inbox not initialized');
+        }
+        replyInbox.markRead(campaignId);
+        return { success: true };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+// Interrupted campaigns
+ipcMain.handle('list-interrupted-campaigns', async (): Promise<{ success: boolean; campaigns?: CampaignSummary[]; error?: string }> => {
+    try {
+        if (!campaignJournal) {
+            throw new Error('Campaign journal not initialized');
+        }
+        return { success: true, campaigns: campaignJournal.listInterrupted() };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+ipcMain.handle('continue-campaign', async (_: IpcMainInvokeEvent, campaignId: string): Promise<{ success: boolean; campaignId?: string; results?: SendMessagesResults; error?: string }> => {
+    try {
+        if (!campaignJournal) {
+            throw new Error('Campaign journal not initialized');
+        }
+
+        const record = campaignJournal.load(campaignId);
+        assertCanSend(record.options);
+        const pendingRows = campaignJournal.getPendingRows(campaignId);
+        campaignJournal.setStatus(campaignId, 'running');
+
+        const results = await runJournaledCampaign(record, pendingRows);
+        return { success: true, campaignId, results };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+// Send the given failed rows of a finished campaign again; their new outcomes are journaled after the old ones
+ipcMain.handle('retry-failed-rows', async (_: IpcMainInvokeEvent, campaignId: string, rowIndexes: number[]): Promise<{ success: boolean; campaignId?: string; results?: SendMessagesResults; error?: string }> => {
+    try {
+        if (!campaignJournal) {
+            throw new Error('Campaign journal not initialized');
+        }
+
+        const record = campaignJournal.load(campaignId);
+        const rows = record.options.data.filter(row => rowIndexes.includes(row.__rowIndex as number));
+        if (rows.length === 0) {
+            throw new Error('No failed rows to retry');
+        }
+        assertCanSend(record.options);
+        campaignJournal.setStatus(campaignId, 'running');
+
+        const results = await runJournaledCampaign(record, rows);
+        return { success: true, campaignId, results };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+ipcMain.handle('discard-campaign', async (_: IpcMainInvokeEvent, campaignId: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+        if (!campaignJournal) {
+            throw new Error('Campaign journal not initialized');
+        }
+        // Its queued messages have nothing left to send
+        messageQueue?.cancelCampaign(campaignId);
+        campaignJournal.remove(campaignId);
+        return { success: true };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+// Export campaign results
+ipcMain.handle('export-results', async (_: IpcMainInvokeEvent, campaignId: string, format: ExportFormat): Promise<{ success: boolean; filePath?: string; error?: string }> => {
+    try {
+        if (!mainWindow) return { success: false };
+        if (!campaignJournal) {
+            throw new Error('Campaign journal not initialized');
+        }
+
+        const record = campaignJournal.load(campaignId);
+        const { filePath, sheetName } = record.options;
+
+        // Prefer the full source sheet so the report mirrors it; fall back to the rows the campaign stored
+        const sourceRows = filePath && fs.existsSync(filePath) && whatsappHandlers.size > 0
+            ? getAnyHandler().readExcelFile(filePath, sheetName || null)
+            : record.options.data;
+
+        const baseName = filePath ? path.basename(filePath, path.extname(filePath)) : `campaign-${campaignId}`;
+        const result = await dialog.showSaveDialog(mainWindow, {
+            defaultPath: `${baseName}-results.${format}`,
+            filters: format === 'csv'
+                ? [{ name: 'CSV Files', extensions: ['csv'] }]
+                : [{ name: 'Excel Files', extensions: ['xlsx'] }]
+        });
+
+        if (result.canceled || !result.filePath) {
+            return { success: false };
+        }
+
+        const accountNames = new Map((accountRegistry?.list() ?? []).map(account => [account.id, account.name]));
+        exportResults(sourceRows, campaignJournal.readEntries(campaignId), result.filePath, campaignJournal.readDeliveryStatuses(campaignId), accountNames);
+        return { success: true, filePath: result.filePath };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+// Campaign controls, for the campaign running on an account
+ipcMain.handle('pause-campaign', async (_: IpcMainInvokeEvent, accountId: string = DEFAULT_ACCOUNT_ID): Promise<{ success: boolean; error?: string }> => {
+    try {
+        controlCampaign(accountId, handler => handler.pauseCampaign());
+        return { success: true };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+ipcMain.handle('resume-campaign', async (_: IpcMainInvokeEvent, accountId: string = DEFAULT_ACCOUNT_ID): Promise<{ success: boolean; error?: string }> => {
+    try {
+        controlCampaign(accountId, handler => handler.resumeCampaign());
+        return { success: true };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+ipcMain.handle('cancel-campaign', async (_: IpcMainInvokeEvent, accountId: string = DEFAULT_ACCOUNT_ID): Promise<{ success: boolean; error?: string }> => {
+    try {
+        controlCampaign(accountId, handler => handler.cancelCampaign());
+        return { success: true };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+// Create group
+ipcMain.handle('create-group', async (_: IpcMainInvokeEvent, options: { filePath: string; sheetName: string | null; phoneColumn: string; groupName: string; defaultCountryCode?: string; accountId?: string }): Promise<CreateGroupResult> => {
+    try {
+        const { filePath, sheetName, phoneColumn, groupName, defaultCountryCode, accountId } = options;
+
+        const result = await getHandler(accountId).createGroupFromExcel(
+            filePath,
+            sheetName,
+            phoneColumn,
+            groupName,
+            defaultCountryCode
+        );
+
+        return result;
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+// Disconnect one account
+ipcMain.handle('disconnect-whatsapp', async (_: IpcMainInvokeEvent, accountId: string = DEFAULT_ACCOUNT_ID): Promise<{ success: boolean; error?: string }> => {
+    try {
+        await destroyHandler(accountId);
+        return { success: true };
+    } catch (error) {
+        return { 
+            success: false, 
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+// WhatsApp accounts
+ipcMain.handle('list-accounts', async (): Promise<{ success: boolean; accounts?: WhatsAppAccount[]; error?: string }> => {
+    try {
+        if (!accountRegistry) {
+            throw new Error('Accounts not initialized');
+        }
+        return { success: true, accounts: accountRegistry.list() };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+ipcMain.handle('add-account', async (_: IpcMainInvokeEvent, name: string): Promise<{ success: boolean; account?: WhatsAppAccount; error?: string }> => {
+    try {
+        if (!accountRegistry) {
+            throw new Error('Accounts not initialized');
+        }
+        return { success: true, account: accountRegistry.add(name) };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+ipcMain.handle('set-account-daily-cap', async (_: IpcMainInvokeEvent, accountId: string, dailyCap: number): Promise<{ success: boolean; error?: string }> => {
+    try {
+        if (!accountRegistry) {
+            throw new Error('Accounts not initialized');
+        }
+        accountRegistry.setDailyCap(accountId, dailyCap);
+        return { success: true };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+});
+
+// Remove an account and log it out by deleting its session; its campaigns stay in the journal
+ipcMain.handle('remove-account', async (_: IpcMainInvokeEvent, accountId: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+        if (!accountRegistry) {
+            throw new Error('Accounts not initialized');
+        }
+        const handler = whatsappHandlers.get(accountId);
+        if (handler && handler.getCampaignState() !== 'idle') {
+            throw new Error('This account is sending a campaign');
+        }
+
+        accountRegistry.remove(accountId);
+        await destroyHandler(accountId);
+        fs.rmSync(path.join(getAuthPath(), `session-${accountId}`), { recursive: true, force: true });
+        return { success: true };
+    } catch (error) {
+        return {
+            success: false,
             error: error instanceof Error ? error.message : 'Unknown error'
         };
     }
@@ -0,0 +1,205 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { ExcelRow, QueuedMessage, QueueRejection, SendMessageDetail } from './src/types.js';
+import { readJson, writeJson } from './json-store.js';
+
+// How often due messages are checked
+const CHECK_INTERVAL = 15 * 1000;
+
+export interface QueueRunner {
+    // Whether messages of a campaign can be sent right now (its account connected, no campaign running on it)
+    canStart: (campaignId: string) => boolean;
+    // Send the given rows of a journaled campaign and return the outcome of each row that was processed.
+    // Rejects when the campaign can't be sent at all, e.g. it was discarded; its messages then fail.
+    send: (campaignId: string, rowIndexes: number[]) => Promise<SendMessageDetail[]>;
+    // Called once a campaign has no queued messages left
+    finish: (campaignId: string) => void;
+}
+
+function parseSendAt(value: ExcelRow[string]): Date | null {
+    if (value instanceof Date) {
+        return isNaN(value.getTime()) ? null : value;
+    }
+    if (typeof value === 'string' && value.trim()) {
+        const parsed = new Date(value);
+        return isNaN(parsed.getTime()) ? null : parsed;
+    }
+    return null;
+}
+
+/**
+ * Queue of individual messages, each sent at the time given in its own row.
+ *
+ * The queue only stores which row of which journaled campaign goes out when; the rows,
+ * template and send options live in the campaign journal. Messages that come due together
+ * are sent as one small campaign, so they get the usual pacing, journaling and controls.
+ */
+class MessageQueue extends EventEmitter {
+    private filePath: string;
+    private runner: QueueRunner;
+    private items: QueuedMessage[];
+    private timer: NodeJS.Timeout | null;
+
+    constructor(filePath: string, runner: QueueRunner) {
+        super();
+        this.filePath = filePath;
+        this.runner = runner;
+        this.items = readJson<QueuedMessage[]>(filePath, []);
+        this.timer = null;
+
+        // Resending could message someone twice, so rows cut off mid-send are left for the user to review
+        for (const item of this.items) {
+            if (item.status === 'sending') {
+                item.status = 'failed';
+                item.error = 'The app closed while this message was being sent; check the exported campaign results';
+            }
+        }
+        this.save();
+    }
+
+    private save(): void {
+        writeJson(this.filePath, this.items);
+        this.emit('updated', this.list());
+    }
+
+    start(): void {
+        if (this.timer) return;
+        this.timer = setInterval(() => this.checkDue(), CHECK_INTERVAL);
+        this.checkDue();
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    list(): QueuedMessage[] {
+        return [...this.items].sort((a, b) => a.sendAt.localeCompare(b.sendAt));
+    }
+
+    /**
+     * Queue every row of a journaled campaign for the time in its send-at column.
+     * Rows without a valid time are not queued and are returned as rejections.
+     */
+    enqueue(campaignId: string, rows: ExcelRow[], phoneColumn: string, sendAtColumn: string): { queued: number; rejected: QueueRejection[] } {
+        const rejected: QueueRejection[] = [];
+        let queued = 0;
+
+        rows.forEach((row, index) => {
+            const rowIndex = row.__rowIndex ?? index;
+            const sendAt = parseSendAt(row[sendAtColumn]);
+            if (!sendAt) {
+                rejected.push({ rowIndex, reason: `No valid date/time in column '${sendAtColumn}'` });
+                return;
+            }
+
+            const phone = row[phoneColumn];
+            this.items.push({
+                id: randomUUID(),
+                campaignId,
+                rowIndex,
+                phone: phone && !(phone instanceof Date) ? phone.toString() : 'N/A',
+                sendAt: sendAt.toISOString(),
+                status: 'queued'
+            });
+            queued++;
+        });
+
+        this.save();
+        return { queued, rejected };
+    }
+
+    cancel(id: string): void {
+        const item = this.items.find(i => i.id === id);
+        if (!item) {
+            throw new Error(`Queued message not found: ${id}`);
+        }
+        if (item.status !== 'queued') {
+            throw new Error('Only messages that have not been sent can be cancelled');
+        }
+        item.status = 'cancelled';
+        this.save();
+        this.finishIfDone(item.campaignId);
+    }
+
+    cancelCampaign(campaignId: string): void {
+        for (const item of this.items) {
+            if (item.campaignId === campaignId && item.status === 'queued') {
+                item.status = 'cancelled';
+            }
+        }
+        this.save();
+        this.finishIfDone(campaignId);
+    }
+
+    // Drop messages that are no longer pending from the list
+    clearFinished(): void {
+        this.items = this.items.filter(item => item.status === 'queued' || item.status === 'sending');
+        this.save();
+    }
+
+    private finishIfDone(campaignId: string): void {
+        const pending = this.items.some(item =>
+            item.campaignId === campaignId && (item.status === 'queued' || item.status === 'sending')
+        );
+        if (!pending) {
+            this.runner.finish(campaignId);
+        }
+    }
+
+    private checkDue(): void {
+        if (this.items.some(item => item.status === 'sending')) {
+            return;
+        }
+
+        const now = Date.now();
+        const firstDue = this.list().find(item =>
+            item.status === 'queued' && new Date(item.sendAt).getTime() <= now && this.runner.canStart(item.campaignId)
+        );
+        if (!firstDue) {
+            return;
+        }
+
+        // Send everything of that campaign that is due in one go
+        const due = this.items.filter(item =>
+            item.campaignId === firstDue.campaignId && item.status === 'queued' && new Date(item.sendAt).getTime() <= now
+        );
+        for (const item of due) {
+            item.status = 'sending';
+        }
+        this.save();
+
+        this.runner.send(firstDue.campaignId, due.map(item => item.rowIndex))
+            .then(details => {
+                const byRow = new Map(details.map(detail => [detail.rowIndex, detail]));
+                for (const item of due) {
+                    const detail = byRow.get(item.rowIndex);
+                    if (!detail) {
+                        // Never reached, e.g. WhatsApp disconnected first; try again on a later check
+                        item.status = 'queued';
+                    } else if (detail.status === 'success') {
+                        item.status = 'sent';
+                        item.sentAt = detail.timestamp;
+                    } else {
+                        item.status = detail.status === 'cancelled' ? 'cancelled' : 'failed';
+                        item.error = detail.error;
+                    }
+                }
+                this.save();
+                this.finishIfDone(firstDue.campaignId);
+            }, error => {
+                // Queuing these again would retry the same batch on every check and hold up later campaigns
+                console.error('Error sending queued messages:', error);
+                for (const item of due) {
+                    item.status = 'failed';
+                    item.error = error instanceof Error ? error.message : 'Unknown error';
+                }
+                this.save();
+                this.finishIfDone(firstDue.campaignId);
+            });
+    }
+}
+
+export default MessageQueue;
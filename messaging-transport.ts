@@ -0,0 +1,70 @@
+import { DeliveryStatus } from './src/types.js';
+
+/**
+ * File to send with a message, in the shape WhatsApp expects: base64 data plus its MIME type
+ */
+export interface OutgoingMedia {
+    mimetype: string;
+    data: string;
+    filename?: string | null;
+}
+
+// Where diagnostics go; console by default, stderr only for the CLI's JSON mode
+export type Logger = Pick<Console, 'log' | 'error'>;
+
+export interface SentMessage {
+    // ID that delivery receipts for this message refer to
+    id: string;
+}
+
+export interface CreatedGroup {
+    id: string;
+    name: string;
+}
+
+/**
+ * A message someone sent to us in a one-to-one chat. Group, status and our own messages
+ * are not reported.
+ */
+export interface TransportMessage {
+    // Chat to answer in
+    chatId: string;
+    // Sender's number in international format without the '+', when it could be resolved
+    number: string | null;
+    body: string;
+    hasMedia: boolean;
+    timestamp: Date;
+}
+
+export interface TransportEvents {
+    'qr': (qr: string) => void;
+    'authenticated': () => void;
+    // WhatsApp is loading chats after logging in, percent 0-100
+    'loading_screen': (percent: number, message: string) => void;
+    'ready': () => void;
+    'auth_failure': (msg: string) => void;
+    'disconnected': (reason: string) => void;
+    'message': (message: TransportMessage) => void;
+    'message_ack': (messageId: string, status: DeliveryStatus) => void;
+}
+
+/**
+ * Everything WhatsAppHandler needs from a WhatsApp connection. The real implementation drives
+ * WhatsApp Web through whatsapp-web.js (see whatsapp-web-transport.ts); FakeTransport keeps
+ * everything in memory so campaigns can run without a phone or a browser.
+ *
+ * Chat IDs are WhatsApp's: '<number>@c.us' for people, '<id>@g.us' for groups.
+ */
+export interface MessagingTransport {
+    // Start connecting; 'qr', 'loading_screen', 'authenticated' and finally 'ready' follow as events
+    initialize(): Promise<void>;
+    destroy(): Promise<void>;
+    sendText(chatId: string, text: string): Promise<SentMessage>;
+    sendMedia(chatId: string, media: OutgoingMedia, caption?: string): Promise<SentMessage>;
+    // Load a file from a local path or an http(s) URL
+    loadMedia(source: string): Promise<OutgoingMedia>;
+    // Chat ID WhatsApp uses for a number (digits only), or null when it has no account
+    lookupNumber(number: string): Promise<string | null>;
+    createGroup(name: string, participants: string[]): Promise<CreatedGroup>;
+    on<E extends keyof TransportEvents>(event: E, listener: TransportEvents[E]): this;
+}
@@ -0,0 +1,36 @@
+import { OptOutSettings } from './src/types.js';
+
+// Common opt-out replies, including a few localized ones
+export const DEFAULT_OPT_OUT_KEYWORDS = [
+    'STOP', 'STOP ALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'OPT OUT', 'OPTOUT',
+    'ALTO', 'BAJA', 'PARAR', 'SAIR', 'ARRET', 'ARRÊT', 'STOPP', 'ABMELDEN', 'BASTA', 'रुको', 'बंद करो'
+];
+
+export const DEFAULT_OPT_OUT_SETTINGS: OptOutSettings = {
+    enabled: true,
+    keywords: DEFAULT_OPT_OUT_KEYWORDS,
+    sendConfirmation: false,
+    confirmationMessage: 'You have been unsubscribed and will not receive further messages from us.'
+};
+
+// Case, punctuation, emoji and extra spaces do not matter, so "Stop!" and " stop " both match
+export function normalizeReply(text: string): string {
+    return text
+        .normalize('NFKC')
+        .toLocaleLowerCase()
+        .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * The keyword an incoming message opts out with, or null. The whole message has to be the
+ * keyword, so a sentence that merely contains "stop" is not taken as an opt-out.
+ */
+export function matchOptOutKeyword(body: string, keywords: string[]): string | null {
+    const reply = normalizeReply(body);
+    if (!reply) {
+        return null;
+    }
+    return keywords.find(keyword => normalizeReply(keyword) === reply) ?? null;
+}
@@ -0,0 +1,156 @@
+import { NormalizedPhone } from './src/types.js';
+
+interface CountryRule {
+    // Prefix dialled before national numbers inside the country, dropped in international format
+    trunkPrefix?: string;
+    // Valid lengths of the national significant number (without country code or trunk prefix)
+    nationalLengths: number[];
+    pattern?: RegExp;
+}
+
+const range = (min: number, max: number): number[] =>
+    Array.from({ length: max - min + 1 }, (_, i) => min + i);
+
+// Keyed by country calling code. Countries sharing a code (e.g. NANP) share a rule.
+const COUNTRY_RULES: Record<string, CountryRule> = {
+    '1': { nationalLengths: [10], pattern: /^[2-9]\d{2}[2-9]\d{6}$/ },
+    '7': { trunkPrefix: '8', nationalLengths: [10] },
+    '20': { trunkPrefix: '0', nationalLengths: range(8, 10) },
+    '27': { trunkPrefix: '0', nationalLengths: [9] },
+    '30': { nationalLengths: [10] },
+    '31': { trunkPrefix: '0', nationalLengths: [9] },
+    '32': { trunkPrefix: '0', nationalLengths: [8, 9] },
+    '33': { trunkPrefix: '0', nationalLengths: [9] },
+    '34': { nationalLengths: [9] },
+    '39': { nationalLengths: range(6, 11) },
+    '41': { trunkPrefix: '0', nationalLengths: [9] },
+    '44': { trunkPrefix: '0', nationalLengths: [9, 10] },
+    '49': { trunkPrefix: '0', nationalLengths: range(6, 13) },
+    '52': { nationalLengths: [10] },
+    '55': { trunkPrefix: '0', nationalLengths: [10, 11] },
+    '60': { trunkPrefix: '0', nationalLengths: [9, 10] },
+    '61': { trunkPrefix: '0', nationalLengths: [9] },
+    '62': { trunkPrefix: '0', nationalLengths: range(9, 12) },
+    '63': { trunkPrefix: '0', nationalLengths: [10] },
+    '65': { nationalLengths: [8] },
+    '66': { trunkPrefix: '0', nationalLengths: [8, 9] },
+    '81': { trunkPrefix: '0', nationalLengths: [9, 10] },
+    '82': { trunkPrefix: '0', nationalLengths: [9, 10] },
+    '86': { trunkPrefix: '0', nationalLengths: [10, 11] },
+    '90': { trunkPrefix: '0', nationalLengths: [10] },
+    '91': { trunkPrefix: '0', nationalLengths: [10], pattern: /^[1-9]\d{9}$/ },
+    '92': { trunkPrefix: '0', nationalLengths: [10] },
+    '94': { trunkPrefix: '0', nationalLengths: [9] },
+    '234': { trunkPrefix: '0', nationalLengths: [8, 10] },
+    '254': { trunkPrefix: '0', nationalLengths: [9] },
+    '353': { trunkPrefix: '0', nationalLengths: range(7, 9) },
+    '880': { trunkPrefix: '0', nationalLengths: [10] },
+    '966': { trunkPrefix: '0', nationalLengths: [9] },
+    '971': { trunkPrefix: '0', nationalLengths: [8, 9] },
+    '977': { trunkPrefix: '0', nationalLengths: range(8, 10) }
+};
+
+// Bounds for international numbers whose country code has no rule above
+const MIN_INTERNATIONAL_DIGITS = 8;
+const MAX_INTERNATIONAL_DIGITS = 15;
+
+function invalid(input: string, reason: string): NormalizedPhone {
+    return { valid: false, input, reason };
+}
+
+function validateNational(input: string, countryCode: string, national: string): NormalizedPhone {
+    const rule = COUNTRY_RULES[countryCode];
+    if (!rule.nationalLengths.includes(national.length)) {
+        return invalid(input, `+${countryCode} numbers must have ${rule.nationalLengths.join(' or ')} digits after the country code, got ${national.length}`);
+    }
+    if (rule.pattern && !rule.pattern.test(national)) {
+        return invalid(input, `Not a valid +${countryCode} number`);
+    }
+    return { valid: true, input, countryCode, e164: `+${countryCode}${national}` };
+}
+
+// Country codes are prefix-free, so at most one of the 1-3 digit prefixes can match
+function findCountryCode(digits: string): string | null {
+    for (let length = 1; length <= 3; length++) {
+        if (COUNTRY_RULES[digits.slice(0, length)]) {
+            return digits.slice(0, length);
+        }
+    }
+    return null;
+}
+
+function normalizeInternational(input: string, digits: string): NormalizedPhone {
+    const countryCode = findCountryCode(digits);
+    if (countryCode) {
+        return validateNational(input, countryCode, digits.slice(countryCode.length));
+    }
+
+    if (digits.length < MIN_INTERNATIONAL_DIGITS || digits.length > MAX_INTERNATIONAL_DIGITS) {
+        return invalid(input, `International numbers must have ${MIN_INTERNATIONAL_DIGITS}-${MAX_INTERNATIONAL_DIGITS} digits, got ${digits.length}`);
+    }
+    // Unknown country code: the length is plausible, which is as far as we can check
+    return { valid: true, input, countryCode: '', e164: `+${digits}` };
+}
+
+/**
+ * Normalize a phone number as typed in a sheet to E.164.
+ *
+ * Numbers starting with '+' or '00' are treated as international. Other numbers are read as
+ * national numbers of the default country (with its trunk prefix, its country code or neither);
+ * a number that fits none of those but starts with another known country code is read as an
+ * international number missing the '+'. For a default country without a rule, its code is
+ * prepended unless the number already starts with it. Without a default country code, numbers
+ * must already include their country code.
+ */
+export function normalizePhoneNumber(phone: string | number, defaultCountryCode?: string): NormalizedPhone {
+    const input = phone.toString().trim();
+    const hasPlus = input.startsWith('+');
+    let digits = input.replace(/\D/g, '');
+
+    if (!digits) {
+        return invalid(input, 'No digits in phone number');
+    }
+
+    if (hasPlus || digits.startsWith('00')) {
+        return normalizeInternational(input, hasPlus ? digits : digits.slice(2));
+    }
+
+    const countryCode = defaultCountryCode?.replace(/\D/g, '');
+    if (!countryCode) {
+        if (digits.startsWith('0')) {
+            return invalid(input, 'Local number with a trunk prefix; set a default country code');
+        }
+        return normalizeInternational(input, digits);
+    }
+
+    const rule = COUNTRY_RULES[countryCode];
+    if (!rule) {
+        // No rule for the default country: strip a leading 0 and trust the length bounds
+        digits = digits.replace(/^0+/, '');
+        return normalizeInternational(input, digits.startsWith(countryCode) ? digits : countryCode + digits);
+    }
+
+    if (rule.trunkPrefix && digits.startsWith(rule.trunkPrefix)
+        && rule.nationalLengths.includes(digits.length - rule.trunkPrefix.length)) {
+        return validateNational(input, countryCode, digits.slice(rule.trunkPrefix.length));
+    }
+    if (rule.nationalLengths.includes(digits.length)) {
+        return validateNational(input, countryCode, digits);
+    }
+    if (digits.startsWith(countryCode)) {
+        return validateNational(input, countryCode, digits.slice(countryCode.length));
+    }
+    // E.g. 447700900123 in a sheet of Indian numbers
+    if (findCountryCode(digits)) {
+        const international = normalizeInternational(input, digits);
+        if (international.valid) {
+            return international;
+        }
+    }
+
+    return invalid(input, `${digits.length} digits is not a valid length for a +${countryCode} number`);
+}
+
+export function toChatId(e164: string): string {
+    return e164.replace(/\D/g, '') + '@c.us';
+}
@@ -0,0 +1,82 @@
+import { DedupeDecision, DedupeStrategy, ExcelRow } from './src/types.js';
+import { normalizePhoneNumber } from './phone-number.js';
+
+export interface RecipientGroup {
+    // Row the message is sent for; placeholders outside {#each} use its cells
+    row: ExcelRow;
+    // Rows rendered by {#each}, in sheet order; more than one only when merging
+    rows: ExcelRow[];
+    // Rows that get no message because another row for the same number wins
+    dropped: ExcelRow[];
+}
+
+/**
+ * Group rows by normalized phone number and decide which rows get a message.
+ *
+ *   first  the first row for a number is sent, later ones are dropped
+ *   last   the last row for a number is sent, earlier ones are dropped
+ *   merge  one message per number, with {#each} repeated for every row
+ *
+ * Rows without a valid number are never grouped, so they still fail with their own reason.
+ * Groups come back in the sheet order of the row that is sent.
+ */
+export function groupRecipients(data: ExcelRow[], phoneColumn: string, strategy: DedupeStrategy, defaultCountryCode?: string): RecipientGroup[] {
+    // Pin row indexes so dropped and merged rows can be reported against the sheet
+    const rows: ExcelRow[] = data.map((row, index) => ({ ...row, __rowIndex: row.__rowIndex ?? index }));
+    if (strategy === 'none') {
+        return rows.map(row => ({ row, rows: [row], dropped: [] }));
+    }
+
+    const byPhone = new Map<string, ExcelRow[]>();
+    const groups: ExcelRow[][] = [];
+    for (const row of rows) {
+        const phone = row[phoneColumn];
+        const normalized = phone && !(phone instanceof Date) ? normalizePhoneNumber(phone, defaultCountryCode) : null;
+        if (!normalized?.valid) {
+            groups.push([row]);
+            continue;
+        }
+
+        const group = byPhone.get(normalized.e164);
+        if (group) {
+            group.push(row);
+        } else {
+            const created = [row];
+            byPhone.set(normalized.e164, created);
+            groups.push(created);
+        }
+    }
+
+    return groups
+        .map(group => {
+            if (strategy === 'merge') {
+                return { row: group[0], rows: group, dropped: [] };
+            }
+            const kept = strategy === 'first' ? group[0] : group[group.length - 1];
+            return { row: kept, rows: [kept], dropped: group.filter(row => row !== kept) };
+        })
+        .sort((a, b) => (a.row.__rowIndex as number) - (b.row.__rowIndex as number));
+}
+
+/**
+ * One decision per number that appears in more than one row, for review before sending
+ */
+export function describeDedupe(groups: RecipientGroup[], phoneColumn: string, strategy: DedupeStrategy, defaultCountryCode?: string): DedupeDecision[] {
+    if (strategy === 'none') {
+        return [];
+    }
+
+    return groups
+        .filter(group => group.rows.length + group.dropped.length > 1)
+        .map(group => {
+            const normalized = normalizePhoneNumber(group.row[phoneColumn] as string | number, defaultCountryCode);
+            return {
+                e164: normalized.valid ? normalized.e164 : String(group.row[phoneColumn]),
+                strategy,
+                keptRowIndex: group.row.__rowIndex as number,
+                rowIndexes: [...group.rows, ...group.dropped]
+                    .map(row => row.__rowIndex as number)
+                    .sort((a, b) => a - b)
+            };
+        });
+}
@@ -0,0 +1,111 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { IncomingMessage, InboxReply, SendMessageDetail } from './src/types.js';
+import { readJson, writeJson } from './json-store.js';
+
+// Replies are only linked to campaigns sent within this window
+const RECIPIENT_RETENTION = 30 * 24 * 60 * 60 * 1000;
+
+interface SentRecipient {
+    campaignId: string;
+    rowIndex: number;
+    message?: string;
+    sentAt: string;
+}
+
+interface InboxData {
+    // Latest campaign message sent to each number, keyed by E.164
+    recipients: Record<string, SentRecipient>;
+    replies: InboxReply[];
+}
+
+/**
+ * Replies from campaign recipients. Every successful send is remembered per number, so an
+ * incoming message can be linked to the campaign, row and message it answers. Messages from
+ * numbers no recent campaign went to are ignored. Emits 'updated' when replies change.
+ */
+class ReplyInbox extends EventEmitter {
+    private filePath: string;
+    private data: InboxData;
+
+    constructor(filePath: string) {
+        super();
+        this.filePath = filePath;
+        this.data = readJson<InboxData>(filePath, { recipients: {}, replies: [] });
+    }
+
+    private save(): void {
+        writeJson(this.filePath, this.data);
+    }
+
+    // Remember a message that went out so replies to it can be matched
+    trackSent(campaignId: string, detail: SendMessageDetail): void {
+        if (detail.status !== 'success' || !detail.e164) {
+            return;
+        }
+
+        this.data.recipients[detail.e164] = {
+            campaignId,
+            rowIndex: detail.rowIndex,
+            message: detail.message,
+            sentAt: detail.timestamp
+        };
+        this.save();
+    }
+
+    /**
+     * File an incoming message under the campaign last sent to its sender.
+     * Returns the stored reply, or null when the sender was not a recent recipient.
+     */
+    addReply(incoming: IncomingMessage): InboxReply | null {
+        const recipient = this.data.recipients[incoming.e164];
+        if (!recipient || Date.now() - new Date(recipient.sentAt).getTime() > RECIPIENT_RETENTION) {
+            return null;
+        }
+
+        const reply: InboxReply = {
+            id: randomUUID(),
+            campaignId: recipient.campaignId,
+            rowIndex: recipient.rowIndex,
+            e164: incoming.e164,
+            body: incoming.body,
+            hasMedia: incoming.hasMedia,
+            receivedAt: incoming.timestamp,
+            sentMessage: recipient.message,
+            sentAt: recipient.sentAt,
+            read: false
+        };
+        this.data.replies.push(reply);
+        this.save();
+        this.emit('updated');
+        return reply;
+    }
+
+    // Newest first
+    list(): InboxReply[] {
+        return [...this.data.replies].sort((a, b) => b.receivedAt.localeCompare(a.receivedAt));
+    }
+
+    markRead(campaignId: string): void {
+        for (const reply of this.data.replies) {
+            if (reply.campaignId === campaignId) {
+                reply.read = true;
+            }
+        }
+        this.save();
+        this.emit('updated');
+    }
+
+    // Forget recipients whose campaigns are too old to match replies against
+    prune(): void {
+        const cutoff = Date.now() - RECIPIENT_RETENTION;
+        for (const [e164, recipient] of Object.entries(this.data.recipients)) {
+            if (new Date(recipient.sentAt).getTime() < cutoff) {
+                delete this.data.recipients[e164];
+            }
+        }
+        this.save();
+    }
+}
+
+export default ReplyInbox;
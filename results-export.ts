@@ -0,0 +1,80 @@
+import XLSX from 'xlsx';
+import path from 'path';
+import { format } from 'date-fns';
+import { DeliveryStatus, ExcelRow, ExportFormat, JournalEntry } from './src/types.js';
+
+export const RESULT_COLUMNS = ['Status', 'Error', 'SentAt', 'RenderedMessage'];
+
+function formatCell(value: ExcelRow[string]): string | number {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    if (value instanceof Date) {
+        return format(value, 'yyyy-MM-dd');
+    }
+    return value;
+}
+
+/**
+ * Write a copy of the source rows with the outcome of each row appended as extra columns.
+ * Rows are matched to journal entries by their sheet row index; the latest entry per row wins,
+ * so a continued campaign reports the final outcome of every row.
+ */
+export function exportResults(
+    sourceRows: ExcelRow[],
+    entries: JournalEntry[],
+    outputPath: string,
+    deliveryStatuses: Map<number, DeliveryStatus> = new Map(),
+    accountNames: Map<string, string> = new Map()
+): void {
+    const latest = new Map<number, JournalEntry>();
+    for (const entry of entries) {
+        latest.set(entry.rowIndex, entry);
+    }
+
+    // Only add the attachment, delivery and account columns for campaigns that have them
+    const accountIds = new Set(entries.map(entry => entry.accountId).filter(Boolean));
+    const resultColumns = [
+        ...RESULT_COLUMNS,
+        ...(entries.some(entry => entry.attachment) ? ['Attachment'] : []),
+        ...(deliveryStatuses.size > 0 ? ['Delivery'] : []),
+        ...(accountIds.size > 1 ? ['SentFrom'] : [])
+    ];
+
+    const sourceColumns = sourceRows.length > 0
+        ? Object.keys(sourceRows[0]).filter(col => col !== '__rowIndex' && !resultColumns.includes(col))
+        : [];
+
+    const rows = sourceRows.map((row, index) => {
+        const output: Record<string, string | number> = {};
+        for (const col of sourceColumns) {
+            output[col] = formatCell(row[col]);
+        }
+
+        const entry = latest.get(row.__rowIndex ?? index);
+        output.Status = entry?.status ?? '';
+        output.Error = entry?.error ?? '';
+        output.SentAt = entry?.status === 'success' ? format(new Date(entry.timestamp), 'yyyy-MM-dd HH:mm:ss') : '';
+        output.RenderedMessage = entry?.message ?? '';
+        if (resultColumns.includes('Attachment')) {
+            output.Attachment = entry?.attachment
+                ? `${entry.attachment.status}: ${entry.attachment.source}`
+                : '';
+        }
+        if (resultColumns.includes('Delivery')) {
+            // Sent rows without a receipt yet were at least accepted by WhatsApp
+            output.Delivery = deliveryStatuses.get(row.__rowIndex ?? index) ?? (entry?.status === 'success' ? 'sent' : '');
+        }
+        if (resultColumns.includes('SentFrom')) {
+            output.SentFrom = entry?.accountId ? accountNames.get(entry.accountId) ?? entry.accountId : '';
+        }
+        return output;
+    });
+
+    const worksheet = XLSX.utils.json_to_sheet(rows, { header: [...sourceColumns, ...resultColumns] });
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Results');
+
+    const bookType: ExportFormat = path.extname(outputPath).toLowerCase() === '.csv' ? 'csv' : 'xlsx';
+    XLSX.writeFile(workbook, outputPath, { bookType });
+}
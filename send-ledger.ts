@@ -0,0 +1,40 @@
+import { readJson, writeJson } from './json-store.js';
+
+// Sends older than the longest limit window no longer matter
+const RETENTION = 24 * 60 * 60 * 1000;
+
+/**
+ * Times of recently sent messages, shared by all campaigns so hourly and daily limits
+ * hold across campaigns and app restarts. Without a file path it only lives in memory.
+ */
+class SendLedger {
+    private filePath: string | null;
+    private sends: number[];
+
+    constructor(filePath?: string) {
+        this.filePath = filePath ?? null;
+        this.sends = filePath ? readJson<number[]>(filePath, []) : [];
+        this.prune();
+    }
+
+    private prune(): void {
+        const cutoff = Date.now() - RETENTION;
+        this.sends = this.sends.filter(time => time > cutoff).sort((a, b) => a - b);
+    }
+
+    record(time: number = Date.now()): void {
+        this.sends.push(time);
+        this.prune();
+        if (this.filePath) {
+            writeJson(this.filePath, this.sends);
+        }
+    }
+
+    // Send times within the last 24 hours, oldest first
+    recent(): number[] {
+        this.prune();
+        return [...this.sends];
+    }
+}
+
+export default SendLedger;
@@ -0,0 +1,92 @@
+import { PacingPolicy, SendMessagesOptions } from './src/types.js';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+function randomBetween(min: number, max: number): number {
+    return min + Math.random() * (max - min);
+}
+
+function nonNegative(value: number | undefined): number {
+    return Number.isFinite(value) && (value as number) > 0 ? (value as number) : 0;
+}
+
+/**
+ * The pacing policy for a campaign. Campaigns without one (older saved campaigns, the CLI)
+ * keep the fixed delay with no breaks or limits.
+ */
+export function resolvePacing(options: Pick<SendMessagesOptions, 'delay' | 'pacing'>): PacingPolicy {
+    const pacing = options.pacing ?? {
+        minDelay: options.delay,
+        maxDelay: options.delay,
+        breakEvery: 0,
+        breakMinMinutes: 0,
+        breakMaxMinutes: 0,
+        maxPerHour: 0,
+        maxPerDay: 0
+    };
+
+    const minDelay = nonNegative(pacing.minDelay);
+    const breakMinMinutes = nonNegative(pacing.breakMinMinutes);
+    return {
+        minDelay,
+        maxDelay: Math.max(minDelay, nonNegative(pacing.maxDelay)),
+        breakEvery: Math.floor(nonNegative(pacing.breakEvery)),
+        breakMinMinutes,
+        breakMaxMinutes: Math.max(breakMinMinutes, nonNegative(pacing.breakMaxMinutes)),
+        maxPerHour: Math.floor(nonNegative(pacing.maxPerHour)),
+        maxPerDay: Math.floor(nonNegative(pacing.maxPerDay))
+    };
+}
+
+/**
+ * Milliseconds to wait after the given number of messages has been sent. A break is due when
+ * the count passed a multiple of `breakEvery` since the last delay, at `previousCount`, which
+ * matters when one row took several attempts.
+ */
+export function nextDelay(policy: PacingPolicy, sentCount: number, previousCount: number = sentCount - 1): number {
+    let ms = randomBetween(policy.minDelay, policy.maxDelay) * 1000;
+    if (policy.breakEvery > 0 && Math.floor(sentCount / policy.breakEvery) > Math.floor(Math.max(0, previousCount) / policy.breakEvery)) {
+        ms += randomBetween(policy.breakMinMinutes, policy.breakMaxMinutes) * 60 * 1000;
+    }
+    return ms;
+}
+
+/**
+ * Earliest time (epoch ms) at or after `now` when another message fits within the
+ * hourly and daily limits, given the times of earlier sends in ascending order.
+ */
+export function nextSendSlot(sends: number[], policy: PacingPolicy, now: number): number {
+    let slot = now;
+    if (policy.maxPerHour > 0 && sends.length >= policy.maxPerHour) {
+        slot = Math.max(slot, sends[sends.length - policy.maxPerHour] + HOUR);
+    }
+    if (policy.maxPerDay > 0 && sends.length >= policy.maxPerDay) {
+        slot = Math.max(slot, sends[sends.length - policy.maxPerDay] + DAY);
+    }
+    return slot;
+}
+
+/**
+ * Estimated finish time (epoch ms) for sending `count` messages, assuming average
+ * delays and breaks and counting sends that already used up part of the limits.
+ */
+export function estimateFinish(policy: PacingPolicy, count: number, recentSends: number[], now: number): number {
+    const sends = [...recentSends];
+    const averageDelay = (policy.minDelay + policy.maxDelay) / 2 * 1000;
+    const averageBreak = (policy.breakMinMinutes + policy.breakMaxMinutes) / 2 * 60 * 1000;
+
+    let time = now;
+    for (let sent = 1; sent <= count; sent++) {
+        time = nextSendSlot(sends, policy, time);
+        sends.push(time);
+
+        if (sent < count) {
+            time += averageDelay;
+            if (policy.breakEvery > 0 && sent % policy.breakEvery === 0) {
+                time += averageBreak;
+            }
+        }
+    }
+    return time;
+}
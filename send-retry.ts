@@ -0,0 +1,57 @@
+import { RetryPolicy, SendMessagesOptions } from './src/types.js';
+
+// Errors that say the message can never go through, however often it is retried
+const PERMANENT_ERRORS = [
+    /invalid wid/i,
+    /wid error/i,
+    /not (a )?valid/i,
+    /not registered/i,
+    /no lid for user/i,
+    /not initialized/i,
+    /too large/i,
+    /file not found|ENOENT/i
+];
+
+// Errors from a flaky connection or a busy WhatsApp Web page that usually pass on their own
+const RETRYABLE_ERRORS = [
+    /time(d)? ?out/i,
+    /ETIMEDOUT|ECONNRESET|ECONNREFUSED|EAI_AGAIN|ENOTFOUND/,
+    /network/i,
+    /socket hang up/i,
+    /rate.?limit|too many requests/i,
+    /protocol error/i,
+    /execution context was destroyed/i,
+    /target closed|session closed|page crashed/i,
+    /evaluation failed/i
+];
+
+/**
+ * Retry policy for a campaign. Campaigns without one (older saved campaigns, the CLI)
+ * make a single attempt per row, as before.
+ */
+export function resolveRetryPolicy(options: Pick<SendMessagesOptions, 'retry'>): RetryPolicy {
+    const retry = options.retry ?? { maxAttempts: 1, baseDelay: 0, maxDelay: 0 };
+    const baseDelay = Math.max(0, retry.baseDelay || 0);
+
+    return {
+        maxAttempts: Math.max(1, Math.floor(retry.maxAttempts || 1)),
+        baseDelay,
+        maxDelay: Math.max(baseDelay, retry.maxDelay || 0)
+    };
+}
+
+/**
+ * Whether a failed send is worth retrying. Unknown errors are treated as permanent,
+ * since a send that failed for an unknown reason may still have been delivered.
+ */
+export function isRetryableError(error: string | undefined): boolean {
+    if (!error || PERMANENT_ERRORS.some(pattern => pattern.test(error))) {
+        return false;
+    }
+    return RETRYABLE_ERRORS.some(pattern => pattern.test(error));
+}
+
+// Milliseconds to wait after the given failed attempt: baseDelay, then doubling up to maxDelay
+export function retryDelay(policy: RetryPolicy, attempt: number): number {
+    return Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1)) * 1000;
+}
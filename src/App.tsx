@@ -1,6 +1,6 @@
 import  { useState, useEffect } from 'react';
 import QRCode from 'qrcode';
-import { Smartphone, Upload, Send, CheckCircle, XCircle, Loader2, Users } from 'lucide-react';
+import { Smartphone, Upload, Send, CheckCircle, XCircle, Loader2, Users, Pause, Play, Square, History, Trash2, Download, ClipboardCheck, UserCheck, AlertTriangle, Paperclip, CalendarClock, Clock, RotateCcw, Ban, Inbox, Bot } from 'lucide-react';
 import { Button } from './components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './components/ui/card';
 import { Input } from './components/ui/input';
@@ -9,18 +9,44 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Textarea } from './components/ui/textarea';
 import { Progress } from './components/ui/progress';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './components/ui/table';
-import { ExcelRow, ConnectionStatus, ProgressData } from './types';
+import { Calendar } from './components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from './components/ui/popover';
+import { ValidationReport } from './components/validation-report';
+import { ScheduledCampaigns } from './components/scheduled-campaigns';
+import { QueuedMessages } from './components/queued-messages';
+import { DedupePreview } from './components/dedupe-preview';
+import { DoNotContactList } from './components/do-not-contact-list';
+import { OptOutSettingsForm } from './components/opt-out-settings';
+import { ReplyInbox } from './components/reply-inbox';
+import { AutoReplyRules } from './components/auto-reply-rules';
+import { AccountSwitcher } from './components/account-switcher';
+import { ExcelRow, ConnectionState, ProgressData, CampaignState, CampaignSummary, ExportFormat, TemplateIssue, ValidationReport as Report, CreateGroupResult, RecipientCheck, ScheduledCampaign, SendMessagesOptions, QueuedMessage, PacingPolicy, RetryPolicy, SendMessagesResults, RowStatus, DedupeStrategy, DedupeDecision, SuppressedContact, RejectedPhone, OptOutSettings, InboxCampaign, AutoReplyRule, DeliveryReceipt, DeliveryStatus, WhatsAppAccount, BalanceStrategy } from './types';
+import { DISCONNECTED, describeConnection } from './lib/connection';
 
 interface LogEntry {
   phone: string;
-  status: 'success' | 'failed' | 'sending';
+  status: ProgressData['status'];
   error?: string;
+  waitUntil?: string;
+  attempt?: number;
 }
 
-interface Results {
-  success: number;
-  failed: number;
-  total: number;
+// Replace the outcome of retried rows with their new outcome and recount
+function mergeRetryResults(previous: SendMessagesResults, retry: SendMessagesResults): SendMessagesResults {
+  const retried = new Map(retry.details.map(detail => [detail.rowIndex, detail]));
+  const details = previous.details.map(detail => retried.get(detail.rowIndex) ?? detail);
+  const count = (status: RowStatus) => details.filter(detail => detail.status === status).length;
+
+  return {
+    total: previous.total,
+    success: count('success'),
+    failed: count('failed'),
+    cancelled: count('cancelled'),
+    unregistered: count('unregistered'),
+    duplicate: count('duplicate'),
+    suppressed: count('suppressed'),
+    details
+  };
 }
 
 interface IpcRenderer {
@@ -39,8 +65,14 @@ const { ipcRenderer } = window.require('electron');
 
 function App() {
   // State
-  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('disconnected');
-  const [qrCode, setQrCode] = useState<string>('');
+  const [accounts, setAccounts] = useState<WhatsAppAccount[]>([]);
+  // Account the connection card, campaign controls and new campaigns apply to
+  const [selectedAccountId, setSelectedAccountId] = useState<string>('default');
+  // Other accounts the next campaign is spread over, besides the selected one
+  const [spreadAccountIds, setSpreadAccountIds] = useState<string[]>([]);
+  const [balancing, setBalancing] = useState<BalanceStrategy>('round-robin');
+  const [connectionStates, setConnectionStates] = useState<Record<string, ConnectionState>>({});
+  const [qrCodes, setQrCodes] = useState<Record<string, string>>({});
   const [excelData, setExcelData] = useState<ExcelRow[] | null>(null);
   const [allExcelData, setAllExcelData] = useState<ExcelRow[] | null>(null);
   const [filePath, setFilePath] = useState<string>('');
@@ -48,67 +80,289 @@ function App() {
   const [selectedSheet, setSelectedSheet] = useState<string>('');
   const [phoneColumn, setPhoneColumn] = useState<string>('');
   const [messageTemplate, setMessageTemplate] = useState<string>('');
-  const [delay, setDelay] = useState<number>(5);
+  const [pacing, setPacing] = useState<PacingPolicy>({
+    minDelay: 5,
+    maxDelay: 12,
+    breakEvery: 0,
+    breakMinMinutes: 2,
+    breakMaxMinutes: 5,
+    maxPerHour: 0,
+    maxPerDay: 0
+  });
+  const [retryPolicy, setRetryPolicy] = useState<RetryPolicy>({ maxAttempts: 3, baseDelay: 10, maxDelay: 120 });
+  const [estimatedFinish, setEstimatedFinish] = useState<string | null>(null);
+  const [defaultCountryCode, setDefaultCountryCode] = useState<string>('');
+  const [recipientChecks, setRecipientChecks] = useState<Record<number, RecipientCheck> | null>(null);
+  const [isVerifying, setIsVerifying] = useState<boolean>(false);
+  const [verifyProgress, setVerifyProgress] = useState<{ current: number; total: number }>({ current: 0, total: 0 });
+  const [skipUnregistered, setSkipUnregistered] = useState<boolean>(true);
+  const [strictTemplate, setStrictTemplate] = useState<boolean>(false);
+  const [dedupeStrategy, setDedupeStrategy] = useState<DedupeStrategy>('first');
+  const [dedupeDecisions, setDedupeDecisions] = useState<DedupeDecision[]>([]);
+  const [attachment, setAttachment] = useState<string>('');
+  const [templateIssues, setTemplateIssues] = useState<TemplateIssue[]>([]);
+  const [validationReport, setValidationReport] = useState<Report | null>(null);
+  const [isValidating, setIsValidating] = useState<boolean>(false);
+  const [excludeFlagged, setExcludeFlagged] = useState<boolean>(false);
   const [rowStart, setRowStart] = useState<number>(1);
   const [rowEnd, setRowEnd] = useState<number>(0);
   const [selectedRows, setSelectedRows] = useState<number[]>([]);
-  const [isSending, setIsSending] = useState<boolean>(false);
-  const [progress, setProgress] = useState<{ current: number; total: number }>({ current: 0, total: 0 });
-  const [results, setResults] = useState<Results | null>(null);
-  const [logs, setLogs] = useState<LogEntry[]>([]);
+  // Campaigns run per account, so each account has its own sending state, progress and log
+  const [sendingAccounts, setSendingAccounts] = useState<Record<string, boolean>>({});
+  const [campaignStates, setCampaignStates] = useState<Record<string, CampaignState>>({});
+  const [interruptedCampaigns, setInterruptedCampaigns] = useState<CampaignSummary[]>([]);
+  const [continuedCampaignId, setContinuedCampaignId] = useState<string | null>(null);
+  const [lastCampaignId, setLastCampaignId] = useState<string | null>(null);
+  const [schedules, setSchedules] = useState<ScheduledCampaign[]>([]);
+  const [scheduleDate, setScheduleDate] = useState<Date | undefined>(undefined);
+  const [scheduleTime, setScheduleTime] = useState<string>('09:00');
+  const [sendAtColumn, setSendAtColumn] = useState<string>('');
+  const [queuedMessages, setQueuedMessages] = useState<QueuedMessage[]>([]);
+  const [suppressedContacts, setSuppressedContacts] = useState<SuppressedContact[]>([]);
+  const [optOutSettings, setOptOutSettings] = useState<OptOutSettings | null>(null);
+  const [inboxCampaigns, setInboxCampaigns] = useState<InboxCampaign[]>([]);
+  const [autoReplyRules, setAutoReplyRules] = useState<AutoReplyRule[]>([]);
+  const [campaigns, setCampaigns] = useState<CampaignSummary[]>([]);
+  // Latest delivery status per row, per campaign, as receipts come in
+  const [deliveryStatuses, setDeliveryStatuses] = useState<Record<string, Record<number, DeliveryStatus>>>({});
+  const [progressByAccount, setProgressByAccount] = useState<Record<string, { current: number; total: number }>>({});
+  const [results, setResults] = useState<SendMessagesResults | null>(null);
+  const [logsByAccount, setLogsByAccount] = useState<Record<string, LogEntry[]>>({});
   const [groupName, setGroupName] = useState<string>('');
   const [isCreatingGroup, setIsCreatingGroup] = useState<boolean>(false);
-  const [groupResult, setGroupResult] = useState<{ success: boolean; groupId?: string; groupName?: string; error?: string } | null>(null);
+  const [groupResult, setGroupResult] = useState<CreateGroupResult | null>(null);
 
-  // WhatsApp Events
+  // WhatsApp Events, each tagged with the account it belongs to
   useEffect(() => {
-    ipcRenderer.on('whatsapp-qr', async (_event: any, qr: string) => {
-      setConnectionStatus('qr');
+    ipcRenderer.on('whatsapp-qr', async (_event: any, accountId: string, qr: string) => {
       const qrDataUrl = await QRCode.toDataURL(qr);
-      setQrCode(qrDataUrl);
+      setQrCodes(prev => ({ ...prev, [accountId]: qrDataUrl }));
+    });
+
+    ipcRenderer.on('whatsapp-connection-state', (_event: any, accountId: string, state: ConnectionState) => {
+      setConnectionState(accountId, state);
+      // The QR code is only good while WhatsApp is waiting for it
+      if (state.phase !== 'awaiting_qr') {
+        setQrCodes(prev => ({ ...prev, [accountId]: '' }));
+      }
+      if (state.phase === 'ready') {
+        loadInterruptedCampaigns();
+      }
+    });
+
+    ipcRenderer.on('send-progress', (_event: any, accountId: string, progressData: ProgressData) => {
+      setProgressByAccount(prev => ({ ...prev, [accountId]: { current: progressData.current, total: progressData.total } }));
+      setLogsByAccount(prev => ({
+        ...prev,
+        [accountId]: [{
+          phone: progressData.phone,
+          status: progressData.status,
+          error: progressData.error,
+          waitUntil: progressData.waitUntil,
+          attempt: progressData.attempt
+        }, ...(prev[accountId] ?? []).slice(0, 9)]
+      }));
+    });
+
+    ipcRenderer.on('campaign-state', (_event: any, accountId: string, state: CampaignState) => {
+      setCampaignStates(prev => ({ ...prev, [accountId]: state }));
+    });
+
+    ipcRenderer.on('accounts-updated', (_event: any, updated: WhatsAppAccount[]) => {
+      setAccounts(updated);
+    });
+
+    ipcRenderer.invoke('list-accounts').then(result => {
+      if (result.success) {
+        setAccounts(result.accounts);
+      }
+    });
+
+    ipcRenderer.on('schedules-updated', (_event: any, updated: ScheduledCampaign[]) => {
+      setSchedules(updated);
+    });
+
+    ipcRenderer.invoke('list-scheduled-campaigns').then(result => {
+      if (result.success) {
+        setSchedules(result.schedules);
+      }
+    });
+
+    ipcRenderer.on('message-queue-updated', (_event: any, updated: QueuedMessage[]) => {
+      setQueuedMessages(updated);
+    });
+
+    ipcRenderer.invoke('list-queued-messages').then(result => {
+      if (result.success) {
+        setQueuedMessages(result.messages);
+      }
+    });
+
+    ipcRenderer.on('suppression-list-updated', (_event: any, updated: SuppressedContact[]) => {
+      setSuppressedContacts(updated);
     });
 
-    ipcRenderer.on('whatsapp-authenticated', () => {
-      setConnectionStatus('authenticated');
+    ipcRenderer.invoke('list-suppressed-contacts').then(result => {
+      if (result.success) {
+        setSuppressedContacts(result.contacts);
+      }
+    });
+
+    ipcRenderer.invoke('get-opt-out-settings').then(result => {
+      if (result.success) {
+        setOptOutSettings(result.settings);
+      }
     });
 
-    ipcRenderer.on('whatsapp-ready', () => {
-      setConnectionStatus('connected');
-      setQrCode('');
+    const loadInbox = () => {
+      ipcRenderer.invoke('list-inbox').then(result => {
+        if (result.success) {
+          setInboxCampaigns(result.campaigns);
+        }
+      });
+    };
+
+    ipcRenderer.on('inbox-updated', loadInbox);
+    loadInbox();
+
+    ipcRenderer.on('delivery-receipt', (_event: any, receipt: DeliveryReceipt) => {
+      setDeliveryStatuses(prev => ({
+        ...prev,
+        [receipt.campaignId]: { ...prev[receipt.campaignId], [receipt.rowIndex]: receipt.status }
+      }));
     });
 
-    ipcRenderer.on('whatsapp-auth-failure', () => {
-      setConnectionStatus('error');
+    ipcRenderer.on('auto-reply-rules-updated', (_event: any, updated: AutoReplyRule[]) => {
+      setAutoReplyRules(updated);
     });
 
-    ipcRenderer.on('whatsapp-disconnected', () => {
-      setConnectionStatus('disconnected');
+    ipcRenderer.invoke('list-auto-reply-rules').then(result => {
+      if (result.success) {
+        setAutoReplyRules(result.rules);
+      }
     });
 
-    ipcRenderer.on('send-progress', (_event: any, progressData: ProgressData) => {
-      setProgress({ current: progressData.current, total: progressData.total });
-      setLogs(prev => [{
-        phone: progressData.phone,
-        status: progressData.status,
-        error: progressData.error
-      }, ...prev.slice(0, 9)]);
+    ipcRenderer.on('verify-progress', (_event: any, progressData: { current: number; total: number }) => {
+      setVerifyProgress(progressData);
     });
 
     return () => {
       ipcRenderer.removeAllListeners('whatsapp-qr');
-      ipcRenderer.removeAllListeners('whatsapp-authenticated');
-      ipcRenderer.removeAllListeners('whatsapp-ready');
-      ipcRenderer.removeAllListeners('whatsapp-auth-failure');
-      ipcRenderer.removeAllListeners('whatsapp-disconnected');
+      ipcRenderer.removeAllListeners('whatsapp-connection-state');
       ipcRenderer.removeAllListeners('send-progress');
+      ipcRenderer.removeAllListeners('campaign-state');
+      ipcRenderer.removeAllListeners('verify-progress');
+      ipcRenderer.removeAllListeners('schedules-updated');
+      ipcRenderer.removeAllListeners('message-queue-updated');
+      ipcRenderer.removeAllListeners('suppression-list-updated');
+      ipcRenderer.removeAllListeners('inbox-updated');
+      ipcRenderer.removeAllListeners('auto-reply-rules-updated');
+      ipcRenderer.removeAllListeners('delivery-receipt');
+      ipcRenderer.removeAllListeners('accounts-updated');
     };
   }, []);
 
+  const connection = connectionStates[selectedAccountId] ?? DISCONNECTED;
+  const isConnected = connection.phase === 'ready';
+  const otherConnectedAccounts = accounts.filter(account => account.id !== selectedAccountId && connectionStates[account.id]?.phase === 'ready');
+  const spreadAccounts = spreadAccountIds.filter(accountId => otherConnectedAccounts.some(account => account.id === accountId));
+  const qrCode = qrCodes[selectedAccountId] ?? '';
+  const isSending = !!sendingAccounts[selectedAccountId];
+  const campaignState = campaignStates[selectedAccountId] ?? 'idle';
+  const progress = progressByAccount[selectedAccountId] ?? { current: 0, total: 0 };
+  const logs = logsByAccount[selectedAccountId] ?? [];
+
+  const setConnectionState = (accountId: string, state: ConnectionState) => {
+    setConnectionStates(prev => ({ ...prev, [accountId]: state }));
+  };
+
+  // Show a fresh progress panel for a campaign starting on an account
+  const startSending = (accountId: string, total: number) => {
+    setSendingAccounts(prev => ({ ...prev, [accountId]: true }));
+    setLogsByAccount(prev => ({ ...prev, [accountId]: [] }));
+    setProgressByAccount(prev => ({ ...prev, [accountId]: { current: 0, total } }));
+  };
+
+  const stopSending = (accountId: string) => {
+    setSendingAccounts(prev => ({ ...prev, [accountId]: false }));
+  };
+
+  const updatePacing = (key: keyof PacingPolicy, value: string) => {
+    setPacing(prev => ({ ...prev, [key]: Math.max(0, Number(value) || 0) }));
+  };
+
+  const loadInterruptedCampaigns = async () => {
+    const result = await ipcRenderer.invoke('list-interrupted-campaigns');
+    if (result.success) {
+      setInterruptedCampaigns(result.campaigns);
+    }
+  };
+
+  // A report only describes the rows and template it was run against
+  useEffect(() => {
+    setValidationReport(null);
+  }, [excelData, selectedRows, phoneColumn, messageTemplate, attachment, dedupeStrategy]);
+
+  // New campaigns can be picked when scoping auto-reply rules
+  useEffect(() => {
+    ipcRenderer.invoke('list-campaigns').then(result => {
+      if (result.success) {
+        setCampaigns(result.campaigns);
+      }
+    });
+  }, [lastCampaignId, schedules, queuedMessages]);
+
+  // Registration checks are tied to the phone column and how numbers are normalized
+  useEffect(() => {
+    setRecipientChecks(null);
+  }, [allExcelData, phoneColumn, defaultCountryCode]);
+
   const handleConnect = async () => {
-    setConnectionStatus('connecting');
-    await ipcRenderer.invoke('init-whatsapp');
+    const accountId = selectedAccountId;
+    setConnectionState(accountId, { phase: 'launching', since: new Date().toISOString() });
+    const result = await ipcRenderer.invoke('init-whatsapp', accountId);
+    if (!result.success) {
+      setConnectionState(accountId, { phase: 'failed', error: result.error, since: new Date().toISOString() });
+    }
+  };
+
+  const handleAddAccount = async (name: string): Promise<boolean> => {
+    const result = await ipcRenderer.invoke('add-account', name);
+    if (!result.success) {
+      alert(`Failed to add account: ${result.error}`);
+      return false;
+    }
+    setSelectedAccountId(result.account.id);
+    return true;
+  };
+
+  const handleSetDailyCap = async (account: WhatsAppAccount, dailyCap: number) => {
+    const result = await ipcRenderer.invoke('set-account-daily-cap', account.id, dailyCap);
+    if (!result.success) {
+      alert(`Failed to save the daily limit: ${result.error}`);
+    }
+  };
+
+  const toggleSpreadAccount = (accountId: string, checked: boolean) => {
+    setSpreadAccountIds(prev => checked ? [...prev, accountId] : prev.filter(id => id !== accountId));
   };
 
+  const handleRemoveAccount = async (account: WhatsAppAccount) => {
+    if (!confirm(`Remove "${account.name}"? It will be logged out and has to scan a QR code again if added back.`)) return;
+
+    const result = await ipcRenderer.invoke('remove-account', account.id);
+    if (result.success) {
+      setSelectedAccountId('default');
+      setConnectionState(account.id, DISCONNECTED);
+    } else {
+      alert(`Failed to remove account: ${result.error}`);
+    }
+  };
+
+  // Account a journaled campaign sends from; campaigns from before accounts existed use the main account
+  const campaignAccount = (campaignId: string): string =>
+    campaigns.find(campaign => campaign.id === campaignId)?.accountId ?? 'default';
+
   const handleSelectFile = async () => {
     const selectedFile = await ipcRenderer.invoke('select-file') as string | null;
     if (selectedFile) {
@@ -136,6 +390,7 @@ function App() {
       setExcelData(result.data);
       setSelectedRows([]);
       setPhoneColumn('');
+      setSendAtColumn(result.data.length > 0 && 'SendAt' in result.data[0] ? 'SendAt' : '');
     } else {
       alert(`Failed to read file: ${result.error}`);
     }
@@ -181,35 +436,379 @@ function App() {
     }
   };
 
-  const handleSendMessages = async () => {
-    if (!excelData) return;
-
-    const dataToSend = selectedRows.length > 0
+  const getSelectedData = (): ExcelRow[] => {
+    if (!excelData) return [];
+    return selectedRows.length > 0
       ? selectedRows.map(idx => excelData[idx])
       : excelData;
+  };
 
-    if (!confirm(`Send ${dataToSend.length} messages?`)) return;
+  const getRowsToSend = (): ExcelRow[] => {
+    const rows = getSelectedData();
+    if (!validationReport || !excludeFlagged) return rows;
 
-    setIsSending(true);
-    setResults(null);
-    setLogs([]);
-    setProgress({ current: 0, total: dataToSend.length });
+    const flagged = new Set(validationReport.rows.filter(row => row.issues.length > 0).map(row => row.rowIndex));
+    return rows.filter((row, index) => !flagged.has(row.__rowIndex ?? index));
+  };
 
-    const result = await ipcRenderer.invoke('send-messages', {
-      data: dataToSend,
+  const handleValidate = async () => {
+    setIsValidating(true);
+    const result = await ipcRenderer.invoke('validate-campaign', {
+      data: getSelectedData(),
       phoneColumn,
       template: messageTemplate,
-      delay: parseInt(String(delay))
+      delay: pacing.minDelay,
+      defaultCountryCode,
+      attachment: attachment.trim() || undefined,
+      dedupe: dedupeStrategy
+    });
+    setIsValidating(false);
+
+    if (result.success) {
+      setValidationReport(result.report);
+    } else {
+      alert(`Validation failed: ${result.error}`);
+    }
+  };
+
+  const handleSelectAttachment = async () => {
+    const selectedFile = await ipcRenderer.invoke('select-attachment') as string | null;
+    if (selectedFile) {
+      setAttachment(selectedFile);
+    }
+  };
+
+  const handleVerifyRecipients = async () => {
+    if (!allExcelData || !phoneColumn) return;
+
+    setIsVerifying(true);
+    setVerifyProgress({ current: 0, total: allExcelData.length });
+
+    const result = await ipcRenderer.invoke('verify-recipients', {
+      data: allExcelData,
+      phoneColumn,
+      defaultCountryCode,
+      accountId: selectedAccountId
     });
 
-    setIsSending(false);
+    setIsVerifying(false);
+    if (result.success) {
+      const checks: Record<number, RecipientCheck> = {};
+      for (const check of result.checks as RecipientCheck[]) {
+        checks[check.rowIndex] = check;
+      }
+      setRecipientChecks(checks);
+    } else {
+      alert(`Failed to verify recipients: ${result.error}`);
+    }
+  };
+
+  // Rows to send after exclusions, or null when the template check blocks the campaign
+  const prepareCampaignRows = async (): Promise<ExcelRow[] | null> => {
+    const dataToSend = getRowsToSend();
+    if (dataToSend.length === 0) {
+      alert('No rows left to send');
+      return null;
+    }
+
+    const check = await ipcRenderer.invoke('check-template', messageTemplate, dataToSend);
+    if (!check.success) {
+      alert(`Invalid message template: ${check.error}`);
+      return null;
+    }
+    setTemplateIssues(check.issues);
+
+    if (strictTemplate && check.issues.length > 0) {
+      alert(`${check.issues.length} row(s) have unresolved placeholders. Fix the data or template, or turn off strict mode.`);
+      return null;
+    }
+
+    return dataToSend;
+  };
+
+  const buildSendOptions = (data: ExcelRow[]): SendMessagesOptions => ({
+    data,
+    phoneColumn,
+    template: messageTemplate,
+    delay: pacing.minDelay,
+    pacing,
+    retry: retryPolicy,
+    dedupe: dedupeStrategy,
+    filePath,
+    sheetName: selectedSheet,
+    strictTemplate,
+    defaultCountryCode,
+    skipUnregistered,
+    attachment: attachment.trim() || undefined,
+    accountId: selectedAccountId,
+    accountPool: spreadAccounts.length > 0 ? [selectedAccountId, ...spreadAccounts] : undefined,
+    balancing
+  });
+
+  const handleSendMessages = async () => {
+    if (!excelData) return;
+
+    const dataToSend = await prepareCampaignRows();
+    if (!dataToSend) return;
+
+    if (!confirm(`Send ${dataToSend.length} messages?`)) return;
+
+    const options = buildSendOptions(dataToSend);
+    const accountId = selectedAccountId;
+    startSending(accountId, dataToSend.length);
+    setContinuedCampaignId(null);
+    setLastCampaignId(null);
+    setResults(null);
+
+    const result = await ipcRenderer.invoke('send-messages', options);
+
+    stopSending(accountId);
+    loadInterruptedCampaigns();
     if (result.success) {
       setResults(result.results);
+      setLastCampaignId(result.campaignId);
     } else {
       alert(`Failed to send messages: ${result.error}`);
     }
   };
 
+  const handleScheduleCampaign = async () => {
+    if (!excelData || !scheduleDate) return;
+
+    const [hours, minutes] = scheduleTime.split(':').map(Number);
+    const startAt = new Date(scheduleDate);
+    startAt.setHours(hours || 0, minutes || 0, 0, 0);
+
+    const dataToSend = await prepareCampaignRows();
+    if (!dataToSend) return;
+
+    if (!confirm(`Schedule ${dataToSend.length} messages for ${startAt.toLocaleString()}?`)) return;
+
+    const result = await ipcRenderer.invoke('schedule-campaign', buildSendOptions(dataToSend), startAt.toISOString());
+    if (result.success) {
+      alert(`Campaign scheduled for ${startAt.toLocaleString()}. Keep the app running and WhatsApp connected.`);
+    } else {
+      alert(`Failed to schedule campaign: ${result.error}`);
+    }
+  };
+
+  const handleQueueMessages = async () => {
+    if (!excelData || !sendAtColumn) return;
+
+    const dataToSend = await prepareCampaignRows();
+    if (!dataToSend) return;
+
+    if (!confirm(`Queue ${dataToSend.length} messages, each at the time in its '${sendAtColumn}' column?`)) return;
+
+    const result = await ipcRenderer.invoke('queue-messages', buildSendOptions(dataToSend), sendAtColumn);
+    if (result.success) {
+      const skipped = result.rejected.length > 0
+        ? `\n${result.rejected.length} rows were skipped because they have no valid send time.`
+        : '';
+      alert(`${result.queued} messages queued. Keep the app running and WhatsApp connected.${skipped}`);
+    } else {
+      alert(`Failed to queue messages: ${result.error}`);
+    }
+  };
+
+  const handleCancelQueuedMessage = async (message: QueuedMessage) => {
+    const result = await ipcRenderer.invoke('cancel-queued-message', message.id);
+    if (!result.success) {
+      alert(`Failed to cancel message: ${result.error}`);
+    }
+  };
+
+  const handleCancelQueuedCampaign = async (message: QueuedMessage) => {
+    const pending = queuedMessages.filter(m => m.campaignId === message.campaignId && m.status === 'queued').length;
+    if (!confirm(`Cancel all ${pending} queued messages of this campaign?`)) return;
+
+    const result = await ipcRenderer.invoke('cancel-queued-campaign', message.campaignId);
+    if (!result.success) {
+      alert(`Failed to cancel messages: ${result.error}`);
+    }
+  };
+
+  const handleClearFinishedMessages = async () => {
+    const result = await ipcRenderer.invoke('clear-finished-queued-messages');
+    if (!result.success) {
+      alert(`Failed to clear messages: ${result.error}`);
+    }
+  };
+
+  const reportSuppressionImport = (added: number, rejected: RejectedPhone[]) => {
+    const skipped = rejected.length > 0
+      ? `\n${rejected.length} invalid numbers were skipped: ${rejected.slice(0, 5).map(r => r.phone).join(', ')}${rejected.length > 5 ? ', ...' : ''}`
+      : '';
+    alert(`${added} numbers added to the do-not-contact list.${skipped}`);
+  };
+
+  const handleAddSuppressed = async (phones: string[]) => {
+    const result = await ipcRenderer.invoke('add-suppressed-contacts', phones, defaultCountryCode);
+    if (!result.success) {
+      alert(`Failed to add numbers: ${result.error}`);
+    } else if (result.rejected.length > 0) {
+      reportSuppressionImport(result.added, result.rejected);
+    }
+  };
+
+  const handleRemoveSuppressed = async (contact: SuppressedContact) => {
+    if (!confirm(`Remove ${contact.e164} from the do-not-contact list? They will receive future campaigns.`)) return;
+
+    const result = await ipcRenderer.invoke('remove-suppressed-contact', contact.e164);
+    if (!result.success) {
+      alert(`Failed to remove number: ${result.error}`);
+    }
+  };
+
+  const handleImportSuppressed = async () => {
+    const result = await ipcRenderer.invoke('import-suppression-list', defaultCountryCode);
+    if (result.success) {
+      reportSuppressionImport(result.added, result.rejected);
+    } else if (result.error) {
+      alert(`Failed to import numbers: ${result.error}`);
+    }
+  };
+
+  const handleSaveOptOutSettings = async (settings: OptOutSettings) => {
+    const result = await ipcRenderer.invoke('save-opt-out-settings', settings);
+    if (result.success) {
+      setOptOutSettings(settings);
+    } else {
+      alert(`Failed to save opt-out settings: ${result.error}`);
+    }
+  };
+
+  const handleMarkInboxRead = async (campaignId: string) => {
+    const result = await ipcRenderer.invoke('mark-inbox-read', campaignId);
+    if (!result.success) {
+      alert(`Failed to mark replies as read: ${result.error}`);
+    }
+  };
+
+  const handleSaveAutoReplyRule = async (rule: Omit<AutoReplyRule, 'id'> & { id?: string }): Promise<boolean> => {
+    const result = await ipcRenderer.invoke('save-auto-reply-rule', rule);
+    if (!result.success) {
+      alert(`Failed to save auto-reply rule: ${result.error}`);
+    }
+    return result.success;
+  };
+
+  const handleRemoveAutoReplyRule = async (rule: AutoReplyRule) => {
+    if (!confirm(`Delete the rule "${rule.name || 'Untitled rule'}"?`)) return;
+
+    const result = await ipcRenderer.invoke('remove-auto-reply-rule', rule.id);
+    if (!result.success) {
+      alert(`Failed to delete auto-reply rule: ${result.error}`);
+    }
+  };
+
+  const handleCancelSchedule = async (schedule: ScheduledCampaign) => {
+    if (!confirm('Cancel this scheduled campaign?')) return;
+
+    const result = await ipcRenderer.invoke('cancel-scheduled-campaign', schedule.id);
+    if (!result.success) {
+      alert(`Failed to cancel scheduled campaign: ${result.error}`);
+    }
+  };
+
+  const handleRemoveSchedule = async (schedule: ScheduledCampaign) => {
+    const result = await ipcRenderer.invoke('remove-scheduled-campaign', schedule.id);
+    if (!result.success) {
+      alert(`Failed to remove scheduled campaign: ${result.error}`);
+    }
+  };
+
+  const handleContinueCampaign = async (campaign: CampaignSummary) => {
+    if (!confirm(`Send the remaining ${campaign.pending} messages of this campaign?`)) return;
+
+    // Follow the campaign's own account so its progress shows
+    const accountId = campaign.accountId ?? 'default';
+    setSelectedAccountId(accountId);
+    startSending(accountId, campaign.pending);
+    setContinuedCampaignId(campaign.id);
+    setLastCampaignId(null);
+    setResults(null);
+
+    const result = await ipcRenderer.invoke('continue-campaign', campaign.id);
+
+    stopSending(accountId);
+    loadInterruptedCampaigns();
+    if (result.success) {
+      setResults(result.results);
+      setLastCampaignId(result.campaignId);
+    } else {
+      alert(`Failed to continue campaign: ${result.error}`);
+    }
+  };
+
+  const handleRetryFailed = async () => {
+    if (!results || !lastCampaignId) return;
+
+    const failedRows = results.details.filter(detail => detail.status === 'failed').map(detail => detail.rowIndex);
+    if (failedRows.length === 0) return;
+    if (!confirm(`Retry ${failedRows.length} failed messages?`)) return;
+
+    const previous = results;
+    const accountId = campaignAccount(lastCampaignId);
+    setSelectedAccountId(accountId);
+    startSending(accountId, failedRows.length);
+
+    const result = await ipcRenderer.invoke('retry-failed-rows', lastCampaignId, failedRows);
+
+    stopSending(accountId);
+    loadInterruptedCampaigns();
+    if (result.success) {
+      setResults(mergeRetryResults(previous, result.results));
+    } else {
+      alert(`Failed to retry messages: ${result.error}`);
+    }
+  };
+
+  const handleExportResults = async (format: ExportFormat, campaignId: string | null = lastCampaignId) => {
+    if (!campaignId) return;
+
+    const result = await ipcRenderer.invoke('export-results', campaignId, format);
+    if (result.success) {
+      alert(`Results exported to ${result.filePath}`);
+    } else if (result.error) {
+      alert(`Failed to export results: ${result.error}`);
+    }
+  };
+
+  const handleDiscardCampaign = async (campaign: CampaignSummary) => {
+    if (!confirm('Discard this interrupted campaign? Its remaining messages will not be sent.')) return;
+
+    const result = await ipcRenderer.invoke('discard-campaign', campaign.id);
+    if (result.success) {
+      loadInterruptedCampaigns();
+    } else {
+      alert(`Failed to discard campaign: ${result.error}`);
+    }
+  };
+
+  const handlePauseCampaign = async () => {
+    const result = await ipcRenderer.invoke('pause-campaign', selectedAccountId);
+    if (!result.success) {
+      alert(`Failed to pause campaign: ${result.error}`);
+    }
+  };
+
+  const handleResumeCampaign = async () => {
+    const result = await ipcRenderer.invoke('resume-campaign', selectedAccountId);
+    if (!result.success) {
+      alert(`Failed to resume campaign: ${result.error}`);
+    }
+  };
+
+  const handleCancelCampaign = async () => {
+    if (!confirm('Cancel the campaign? Remaining messages will not be sent.')) return;
+
+    const result = await ipcRenderer.invoke('cancel-campaign', selectedAccountId);
+    if (!result.success) {
+      alert(`Failed to cancel campaign: ${result.error}`);
+    }
+  };
+
   const handleCreateGroup = async () => {
     if (!excelData || !phoneColumn || !groupName.trim()) return;
 
@@ -226,7 +825,9 @@ function App() {
       filePath,
       sheetName: selectedSheet,
       phoneColumn,
-      groupName: groupName.trim()
+      groupName: groupName.trim(),
+      defaultCountryCode,
+      accountId: selectedAccountId
     });
 
     setIsCreatingGroup(false);
@@ -254,24 +855,206 @@ function App() {
     return value.toString();
   };
 
-  const getStatusBadge = (status: ConnectionStatus) => {
-    switch (status) {
-      case 'connected':
-        return <span className="flex items-center gap-2 text-green-600"><CheckCircle className="w-4 h-4" /> Connected</span>;
-      case 'connecting':
-      case 'qr':
-      case 'authenticated':
-        return <span className="flex items-center gap-2 text-yellow-600"><Loader2 className="w-4 h-4 animate-spin" /> Connecting...</span>;
+  const getRecipientBadge = (check: RecipientCheck | undefined) => {
+    switch (check?.status) {
+      case 'registered':
+        return <span className="flex items-center gap-1 text-xs text-green-600"><CheckCircle className="w-3 h-3" /> On WhatsApp</span>;
+      case 'unregistered':
+        return <span className="flex items-center gap-1 text-xs text-red-600"><XCircle className="w-3 h-3" /> Not on WhatsApp</span>;
+      case 'invalid':
       case 'error':
-        return <span className="flex items-center gap-2 text-red-600"><XCircle className="w-4 h-4" /> Error</span>;
+        return <span className="flex items-center gap-1 text-xs text-yellow-600" title={check.reason}><AlertTriangle className="w-3 h-3" /> {check.status === 'invalid' ? 'Invalid number' : 'Check failed'}</span>;
+      default:
+        return null;
+    }
+  };
+
+  const getStatusBadge = (state: ConnectionState) => {
+    const label = describeConnection(state);
+    switch (state.phase) {
+      case 'ready':
+        return <span className="flex items-center gap-2 text-green-600"><CheckCircle className="w-4 h-4" /> {label}</span>;
+      case 'failed':
+        return <span className="flex items-center gap-2 text-red-600" title={state.error}><XCircle className="w-4 h-4" /> {label}</span>;
+      case 'disconnected':
+        return <span className="flex items-center gap-2 text-gray-600"><XCircle className="w-4 h-4" /> {label}</span>;
       default:
-        return <span className="flex items-center gap-2 text-gray-600"><XCircle className="w-4 h-4" /> Disconnected</span>;
+        return <span className="flex items-center gap-2 text-yellow-600"><Loader2 className="w-4 h-4 animate-spin" /> {label}</span>;
     }
   };
 
+  // Rows of the last campaign whose latest receipt has one of the given statuses
+  const countDelivery = (...matching: DeliveryStatus[]): number => {
+    const statuses = Object.values(lastCampaignId ? deliveryStatuses[lastCampaignId] ?? {} : {});
+    return statuses.filter(status => matching.includes(status)).length;
+  };
+
+  // Successful sends of the last campaign per account, when it was spread over several
+  const sentFromAccounts = Object.entries((results?.details ?? []).reduce<Record<string, number>>((counts, detail) => {
+    if (detail.status === 'success' && detail.accountId) {
+      counts[detail.accountId] = (counts[detail.accountId] ?? 0) + 1;
+    }
+    return counts;
+  }, {}));
+
+  const campaignActivity = (
+    <>
+      {isSending && (
+        <div className="flex gap-2">
+          {campaignState === 'paused' ? (
+            <Button onClick={handleResumeCampaign} variant="outline" className="flex-1">
+              <Play className="w-4 h-4 mr-2" /> Resume
+            </Button>
+          ) : (
+            <Button onClick={handlePauseCampaign} variant="outline" className="flex-1" disabled={campaignState !== 'running'}>
+              <Pause className="w-4 h-4 mr-2" /> Pause
+            </Button>
+          )}
+          <Button onClick={handleCancelCampaign} variant="destructive" className="flex-1" disabled={campaignState === 'cancelled'}>
+            <Square className="w-4 h-4 mr-2" /> Cancel
+          </Button>
+        </div>
+      )}
+
+      {isSending && (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>Progress</span>
+              <span>{progress.current} / {progress.total}</span>
+            </div>
+            <Progress value={(progress.current / progress.total) * 100} />
+          </div>
+
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            <p className="text-sm font-semibold">Recent Messages:</p>
+            {logs.map((log, idx) => (
+              <div key={idx} className={`text-sm p-2 rounded ${
+                log.status === 'success' ? 'bg-green-100 text-green-800' :
+                log.status === 'failed' ? 'bg-red-100 text-red-800' :
+                'bg-blue-100 text-blue-800'
+              }`}>
+                {log.phone} - {log.status} {log.error && `(${log.error})`}
+                {log.waitUntil && ` (sending limit reached, resuming at ${new Date(log.waitUntil).toLocaleTimeString()})`}
+                {log.attempt && ` - attempt ${log.attempt} of ${retryPolicy.maxAttempts} failed`}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {results && (
+        <div className="grid grid-cols-7 gap-4">
+          <div className="bg-green-100 border border-green-200 rounded-lg p-4 text-center">
+            <div className="text-3xl font-bold text-green-700">{results.success}</div>
+            <div className="text-sm text-green-600">Successful</div>
+          </div>
+          <div className="bg-red-100 border border-red-200 rounded-lg p-4 text-center">
+            <div className="text-3xl font-bold text-red-700">{results.failed}</div>
+            <div className="text-sm text-red-600">Failed</div>
+          </div>
+          <div className="bg-gray-100 border border-gray-200 rounded-lg p-4 text-center">
+            <div className="text-3xl font-bold text-gray-700">{results.cancelled}</div>
+            <div className="text-sm text-gray-600">Cancelled</div>
+          </div>
+          <div className="bg-yellow-100 border border-yellow-200 rounded-lg p-4 text-center">
+            <div className="text-3xl font-bold text-yellow-700">{results.unregistered}</div>
+            <div className="text-sm text-yellow-600">Not on WhatsApp</div>
+          </div>
+          <div className="bg-purple-100 border border-purple-200 rounded-lg p-4 text-center">
+            <div className="text-3xl font-bold text-purple-700">{results.duplicate}</div>
+            <div className="text-sm text-purple-600">Duplicates</div>
+          </div>
+          <div className="bg-orange-100 border border-orange-200 rounded-lg p-4 text-center">
+            <div className="text-3xl font-bold text-orange-700">{results.suppressed}</div>
+            <div className="text-sm text-orange-600">Do not contact</div>
+          </div>
+          <div className="bg-blue-100 border border-blue-200 rounded-lg p-4 text-center">
+            <div className="text-3xl font-bold text-blue-700">{results.total}</div>
+            <div className="text-sm text-blue-600">Total</div>
+          </div>
+        </div>
+      )}
+
+      {results && sentFromAccounts.length > 1 && (
+        <p className="text-sm text-gray-600">
+          Sent from {sentFromAccounts.map(([accountId, count]) => `${accounts.find(account => account.id === accountId)?.name ?? 'a removed account'} (${count})`).join(', ')}
+        </p>
+      )}
+
+      {results && lastCampaignId && results.success > 0 && (
+        <div className="grid grid-cols-3 gap-4">
+          <div className="bg-white border rounded-lg p-4 text-center">
+            <div className="text-2xl font-bold text-gray-800">{countDelivery('delivered', 'read')} / {results.success}</div>
+            <div className="text-sm text-gray-600">Delivered</div>
+          </div>
+          <div className="bg-white border rounded-lg p-4 text-center">
+            <div className="text-2xl font-bold text-blue-700">{countDelivery('read')} / {results.success}</div>
+            <div className="text-sm text-blue-600">Read</div>
+          </div>
+          <div className="bg-white border rounded-lg p-4 text-center">
+            <div className="text-2xl font-bold text-red-700">{countDelivery('failed')}</div>
+            <div className="text-sm text-red-600">Not delivered</div>
+          </div>
+        </div>
+      )}
+
+      {results && lastCampaignId && results.failed > 0 && !isSending && (
+        <Button onClick={handleRetryFailed} variant="outline" className="w-full">
+          <RotateCcw className="w-4 h-4 mr-2" /> Retry failed rows ({results.failed})
+        </Button>
+      )}
+
+      {results && lastCampaignId && (
+        <div className="flex gap-2">
+          <Button onClick={() => handleExportResults('xlsx')} variant="outline" className="flex-1">
+            <Download className="w-4 h-4 mr-2" /> Export results (Excel)
+          </Button>
+          <Button onClick={() => handleExportResults('csv')} variant="outline" className="flex-1">
+            <Download className="w-4 h-4 mr-2" /> Export results (CSV)
+          </Button>
+        </div>
+      )}
+    </>
+  );
+
+  const recipientCounts = recipientChecks
+    ? Object.values(recipientChecks).reduce((counts, check) => {
+        counts[check.status]++;
+        return counts;
+      }, { registered: 0, unregistered: 0, invalid: 0, error: 0 })
+    : null;
+
   const columns = excelData && excelData.length > 0 ? Object.keys(excelData[0]) : [];
   const displayColumns = columns.filter(col => col !== '__rowIndex');
-  const messagesToSend = selectedRows.length > 0 ? selectedRows.length : (excelData?.length || 0);
+  const messagesToSend = getRowsToSend().length;
+
+  useEffect(() => {
+    if (!phoneColumn || messagesToSend === 0) {
+      setDedupeDecisions([]);
+      return;
+    }
+    ipcRenderer.invoke('preview-dedupe', {
+      data: getRowsToSend(),
+      phoneColumn,
+      template: messageTemplate,
+      delay: pacing.minDelay,
+      defaultCountryCode,
+      dedupe: dedupeStrategy
+    }).then(result => {
+      setDedupeDecisions(result.success ? result.decisions : []);
+    });
+  }, [excelData, selectedRows, rowStart, rowEnd, excludeFlagged, validationReport, phoneColumn, defaultCountryCode, dedupeStrategy]);
+
+  useEffect(() => {
+    if (messagesToSend === 0) {
+      setEstimatedFinish(null);
+      return;
+    }
+    ipcRenderer.invoke('estimate-finish-time', messagesToSend, pacing, selectedAccountId).then(result => {
+      setEstimatedFinish(result.success ? result.finishAt : null);
+    });
+  }, [messagesToSend, pacing, selectedAccountId]);
 
   return (
     <div className="min-h-screen bg-linear-to-br from-purple-50 to-blue-50 p-8">
@@ -292,18 +1075,33 @@ function App() {
                 <Smartphone className="w-6 h-6" />
                 Step 1: Connect WhatsApp
               </CardTitle>
-              {getStatusBadge(connectionStatus)}
+              {getStatusBadge(connection)}
             </div>
-            <CardDescription>Connect your WhatsApp account to start sending messages</CardDescription>
+            <CardDescription>Connect your WhatsApp accounts; new campaigns are sent from the selected account</CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
+            <AccountSwitcher
+              accounts={accounts}
+              selectedAccountId={selectedAccountId}
+              connections={connectionStates}
+              campaignStates={campaignStates}
+              onSelect={setSelectedAccountId}
+              onAdd={handleAddAccount}
+              onRemove={handleRemoveAccount}
+              onSetDailyCap={handleSetDailyCap}
+            />
+
             <Button 
               onClick={handleConnect} 
-              disabled={connectionStatus === 'connected' || connectionStatus === 'connecting'}
+              disabled={['ready', 'launching', 'reconnecting'].includes(connection.phase)}
               className="w-full sm:w-auto"
             >
-              {connectionStatus === 'connected' ? 'Connected' : 'Connect WhatsApp'}
+              {isConnected ? 'Connected' : 'Connect WhatsApp'}
             </Button>
+
+            {connection.phase === 'syncing' && connection.percent !== undefined && (
+              <Progress value={connection.percent} />
+            )}
             
             {qrCode && (
               <div className="flex flex-col items-center space-y-4 p-6 bg-white rounded-lg border">
@@ -315,6 +1113,155 @@ function App() {
           </CardContent>
         </Card>
 
+        {/* Interrupted Campaigns */}
+        {isConnected && (interruptedCampaigns.length > 0 || continuedCampaignId) && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <History className="w-6 h-6" />
+                Interrupted Campaigns
+              </CardTitle>
+              <CardDescription>Continue campaigns that stopped before every message was sent</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {interruptedCampaigns.map(campaign => (
+                <div key={campaign.id} className="flex items-center justify-between gap-4 p-4 rounded-lg border bg-white">
+                  <div className="text-sm space-y-1">
+                    <p className="font-semibold">{new Date(campaign.createdAt).toLocaleString()}</p>
+                    <p className="text-gray-600">
+                      {campaign.filePath || 'Unknown file'}{campaign.sheetName && ` (${campaign.sheetName})`}
+                    </p>
+                    <p className="text-gray-600">
+                      {campaign.processed} of {campaign.total} rows processed, <strong>{campaign.pending} remaining</strong>
+                    </p>
+                    {accounts.length > 1 && (
+                      <p className="text-gray-600">
+                        Sent from {accounts.find(account => account.id === (campaign.accountId ?? 'default'))?.name ?? 'a removed account'}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button onClick={() => handleContinueCampaign(campaign)} disabled={isSending}>
+                      <Play className="w-4 h-4 mr-2" /> Continue
+                    </Button>
+                    <Button onClick={() => handleDiscardCampaign(campaign)} variant="outline" disabled={isSending}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+
+              {continuedCampaignId && campaignActivity}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Scheduled Campaigns */}
+        {schedules.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarClock className="w-6 h-6" />
+                Scheduled Campaigns
+              </CardTitle>
+              <CardDescription>Campaigns start automatically at their scheduled time while the app is running</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ScheduledCampaigns
+                schedules={schedules}
+                isConnected={isConnected}
+                onCancel={handleCancelSchedule}
+                onRemove={handleRemoveSchedule}
+                onExport={(campaignId, format) => handleExportResults(format, campaignId)}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Message Queue */}
+        {queuedMessages.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Clock className="w-6 h-6" />
+                Message Queue
+              </CardTitle>
+              <CardDescription>Each message is sent at its own time while the app is running</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <QueuedMessages
+                messages={queuedMessages}
+                isConnected={isConnected}
+                onCancel={handleCancelQueuedMessage}
+                onCancelCampaign={handleCancelQueuedCampaign}
+                onClearFinished={handleClearFinishedMessages}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Do-Not-Contact List */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Ban className="w-6 h-6" />
+              Do-Not-Contact List
+            </CardTitle>
+            <CardDescription>Numbers on this list are never messaged or added to groups</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <DoNotContactList
+              contacts={suppressedContacts}
+              onAdd={handleAddSuppressed}
+              onRemove={handleRemoveSuppressed}
+              onImport={handleImportSuppressed}
+            />
+            {optOutSettings && (
+              <OptOutSettingsForm settings={optOutSettings} onSave={handleSaveOptOutSettings} />
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Inbox */}
+        {inboxCampaigns.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Inbox className="w-6 h-6" />
+                Inbox
+                {inboxCampaigns.some(campaign => campaign.unread > 0) && (
+                  <span className="text-sm font-normal text-blue-600">
+                    {inboxCampaigns.reduce((sum, campaign) => sum + campaign.unread, 0)} unread
+                  </span>
+                )}
+              </CardTitle>
+              <CardDescription>Replies from campaign recipients, next to the message they answer</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ReplyInbox campaigns={inboxCampaigns} onMarkRead={handleMarkInboxRead} />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Auto-Replies */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Bot className="w-6 h-6" />
+              Auto-Replies
+            </CardTitle>
+            <CardDescription>Answer common questions from campaign recipients automatically</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AutoReplyRules
+              rules={autoReplyRules}
+              campaigns={campaigns}
+              onSave={handleSaveAutoReplyRule}
+              onRemove={handleRemoveAutoReplyRule}
+            />
+          </CardContent>
+        </Card>
+
         {/* Step 2: Upload Excel */}
         <Card>
           <CardHeader>
@@ -327,7 +1274,7 @@ function App() {
           <CardContent className="space-y-4">
             <div className="flex gap-2">
               <Input value={filePath} readOnly placeholder="No file selected" className="flex-1" />
-              <Button onClick={handleSelectFile} variant="outline" disabled={connectionStatus !== 'connected'}>
+              <Button onClick={handleSelectFile} variant="outline" disabled={!isConnected}>
                 Browse
               </Button>
             </div>
@@ -407,6 +1354,7 @@ function App() {
                           <span className="sr-only">Select</span>
                         </TableHead>
                         <TableHead className="w-16">#</TableHead>
+                        {recipientChecks && <TableHead className="w-32">WhatsApp</TableHead>}
                         {columns.map(col => col !== '__rowIndex' && (
                           <TableHead key={col}>{col}</TableHead>
                         ))}
@@ -429,6 +1377,9 @@ function App() {
                           <TableCell className="font-mono text-xs text-gray-500">
                             {rowStart + idx}
                           </TableCell>
+                          {recipientChecks && (
+                            <TableCell>{getRecipientBadge(recipientChecks[row.__rowIndex ?? idx])}</TableCell>
+                          )}
                           {columns.map(col => col !== '__rowIndex' && (
                             <TableCell key={col}>{formatCellValue(row[col])}</TableCell>
                           ))}
@@ -478,6 +1429,50 @@ function App() {
                 </Select>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="country-code">Default Country Code</Label>
+                <Input
+                  id="country-code"
+                  value={defaultCountryCode}
+                  onChange={(e) => setDefaultCountryCode(e.target.value.replace(/\D/g, ''))}
+                  placeholder="e.g. 91"
+                  maxLength={3}
+                  className="w-32"
+                />
+                <p className="text-xs text-gray-500">
+                  Applied to local numbers like 09876543210. Numbers starting with + or 00 keep their own country code.
+                </p>
+              </div>
+
+              {phoneColumn && (
+                <div className="space-y-2">
+                  <Button onClick={handleVerifyRecipients} disabled={isVerifying || isSending} variant="outline">
+                    {isVerifying ? (
+                      <><Loader2 className="w-4 h-4 mr-2 animate-spin" /> Verifying {verifyProgress.current} / {verifyProgress.total}...</>
+                    ) : (
+                      <><UserCheck className="w-4 h-4 mr-2" /> Verify Recipients on WhatsApp</>
+                    )}
+                  </Button>
+                  {recipientCounts && (
+                    <p className="text-sm text-gray-600">
+                      <span className="text-green-700">{recipientCounts.registered} on WhatsApp</span>
+                      {' · '}<span className="text-red-700">{recipientCounts.unregistered} not on WhatsApp</span>
+                      {recipientCounts.invalid > 0 && <>{' · '}<span className="text-yellow-700">{recipientCounts.invalid} invalid</span></>}
+                      {recipientCounts.error > 0 && <>{' · '}<span className="text-yellow-700">{recipientCounts.error} could not be checked</span></>}
+                    </p>
+                  )}
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={skipUnregistered}
+                      onChange={(e) => setSkipUnregistered(e.target.checked)}
+                      className="w-4 h-4 rounded border-gray-300"
+                    />
+                    Skip numbers that are not on WhatsApp when sending
+                  </label>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="template">Message Template</Label>
                 <Textarea
@@ -496,19 +1491,212 @@ function App() {
                     </code>
                   ))}
                 </div>
+                <p className="text-xs text-gray-500">
+                  Fallbacks: <code>{'{Name|Customer}'}</code> · Formatters: <code>{'{Balance|currency:INR}'}</code>, <code>{'{DueDate|date:dd MMM yyyy}'}</code>, <code>{'{Name|upper}'}</code> · Conditionals: <code>{'{#if Column}...{else}...{/if}'}</code>
+                </p>
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="delay">Delay between messages (seconds)</Label>
-                <Input
-                  id="delay"
-                  type="number"
-                  value={delay}
-                  onChange={(e) => setDelay(Number(e.target.value))}
-                  min="1"
-                  max="60"
-                />
+                <Label htmlFor="attachment">Attachment (optional)</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="attachment"
+                    value={attachment}
+                    onChange={(e) => setAttachment(e.target.value)}
+                    placeholder={'C:\\invoices\\{InvoiceNo}.pdf, {InvoicePath} or https://...'}
+                    className="flex-1 font-mono"
+                  />
+                  <Button onClick={handleSelectAttachment} variant="outline">
+                    <Paperclip className="w-4 h-4 mr-2" /> Browse
+                  </Button>
+                </div>
+                <p className="text-xs text-gray-500">
+                  A file path or URL sent with every message, with the message as its caption. Use placeholders for a different file per row.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="dedupe">Numbers that appear in several rows</Label>
+                <Select value={dedupeStrategy} onValueChange={(value) => setDedupeStrategy(value as DedupeStrategy)}>
+                  <SelectTrigger id="dedupe">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="first">Send the first row only</SelectItem>
+                    <SelectItem value="last">Send the last row only</SelectItem>
+                    <SelectItem value="merge">Merge the rows into one message</SelectItem>
+                    <SelectItem value="none">Send every row</SelectItem>
+                  </SelectContent>
+                </Select>
+                {dedupeStrategy === 'merge' && (
+                  <p className="text-xs text-gray-500">
+                    {'Wrap the part to repeat for every row in {#each}...{/each}, e.g. {#each}- Order {OrderNo}: {Amount} {/each}. Placeholders outside it use the first row.'}
+                  </p>
+                )}
               </div>
+
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={strictTemplate}
+                    onChange={(e) => setStrictTemplate(e.target.checked)}
+                    className="w-4 h-4 rounded border-gray-300"
+                  />
+                  Strict mode: don't send rows with unresolved placeholders
+                </label>
+                {templateIssues.length > 0 && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-4 space-y-1 max-h-48 overflow-y-auto">
+                    <p className="text-sm font-semibold text-red-800">
+                      {templateIssues.length} row(s) have unresolved placeholders:
+                    </p>
+                    {templateIssues.map(issue => (
+                      <p key={issue.rowIndex} className="text-sm text-red-700">
+                        Row {issue.rowIndex + 1}: {issue.unresolved.map(col => `{${col}}`).join(', ')}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Pacing and retries</Label>
+                <div className="grid grid-cols-2 gap-4 p-4 rounded-lg border bg-white">
+                  <div className="space-y-2">
+                    <Label htmlFor="min-delay" className="text-sm font-normal">Delay between messages (seconds)</Label>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        id="min-delay"
+                        type="number"
+                        value={pacing.minDelay}
+                        onChange={(e) => updatePacing('minDelay', e.target.value)}
+                        min="1"
+                      />
+                      <span className="text-sm text-gray-600">to</span>
+                      <Input
+                        type="number"
+                        value={pacing.maxDelay}
+                        onChange={(e) => updatePacing('maxDelay', e.target.value)}
+                        min="1"
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="break-every" className="text-sm font-normal">Break every N messages (0 = no breaks)</Label>
+                    <Input
+                      id="break-every"
+                      type="number"
+                      value={pacing.breakEvery}
+                      onChange={(e) => updatePacing('breakEvery', e.target.value)}
+                      min="0"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="break-min" className="text-sm font-normal">Break length (minutes)</Label>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        id="break-min"
+                        type="number"
+                        value={pacing.breakMinMinutes}
+                        onChange={(e) => updatePacing('breakMinMinutes', e.target.value)}
+                        min="0"
+                        disabled={pacing.breakEvery === 0}
+                      />
+                      <span className="text-sm text-gray-600">to</span>
+                      <Input
+                        type="number"
+                        value={pacing.breakMaxMinutes}
+                        onChange={(e) => updatePacing('breakMaxMinutes', e.target.value)}
+                        min="0"
+                        disabled={pacing.breakEvery === 0}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="max-per-hour" className="text-sm font-normal">Max messages per hour / per day (0 = no limit)</Label>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        id="max-per-hour"
+                        type="number"
+                        value={pacing.maxPerHour}
+                        onChange={(e) => updatePacing('maxPerHour', e.target.value)}
+                        min="0"
+                      />
+                      <span className="text-sm text-gray-600">/</span>
+                      <Input
+                        type="number"
+                        value={pacing.maxPerDay}
+                        onChange={(e) => updatePacing('maxPerDay', e.target.value)}
+                        min="0"
+                      />
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 text-sm">
+                  <Label htmlFor="max-attempts" className="font-normal">Retry temporary failures up to</Label>
+                  <Input
+                    id="max-attempts"
+                    type="number"
+                    value={retryPolicy.maxAttempts}
+                    onChange={(e) => setRetryPolicy(prev => ({ ...prev, maxAttempts: Math.max(1, Number(e.target.value) || 1) }))}
+                    min="1"
+                    max="10"
+                    className="w-20"
+                  />
+                  <span>attempts, waiting</span>
+                  <Input
+                    type="number"
+                    value={retryPolicy.baseDelay}
+                    onChange={(e) => setRetryPolicy(prev => ({ ...prev, baseDelay: Math.max(0, Number(e.target.value) || 0) }))}
+                    min="0"
+                    className="w-20"
+                  />
+                  <span>seconds and doubling after each failure</span>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Limits count every message the account sent in the last hour or 24 hours, including other campaigns.
+                  When a limit is reached, sending waits until it frees up.
+                </p>
+              </div>
+
+              {otherConnectedAccounts.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Spread over accounts</Label>
+                  <div className="space-y-3 p-4 rounded-lg border bg-white">
+                    <p className="text-sm text-gray-600">
+                      Send from {accounts.find(account => account.id === selectedAccountId)?.name} and:
+                    </p>
+                    {otherConnectedAccounts.map(account => (
+                      <div key={account.id} className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          id={`spread-${account.id}`}
+                          checked={spreadAccounts.includes(account.id)}
+                          onChange={(e) => toggleSpreadAccount(account.id, e.target.checked)}
+                          className="w-4 h-4 rounded border-gray-300"
+                        />
+                        <Label htmlFor={`spread-${account.id}`} className="font-normal">
+                          {account.name}{account.dailyCap && ` (up to ${account.dailyCap} a day)`}
+                        </Label>
+                      </div>
+                    ))}
+                    {spreadAccounts.length > 0 && (
+                      <Select value={balancing} onValueChange={(value) => setBalancing(value as BalanceStrategy)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="round-robin">Share numbers evenly</SelectItem>
+                          <SelectItem value="weighted">Share numbers by what each account can still send today</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    A number that was messaged before stays with the account that messaged it, so follow-ups arrive in the same chat.
+                  </p>
+                </div>
+              )}
             </CardContent>
           </Card>
         )}
@@ -529,15 +1717,54 @@ function App() {
                 <ul className="text-sm space-y-1">
                   <li>Total messages: <strong>{messagesToSend}</strong></li>
                   <li>Phone column: <strong>{phoneColumn}</strong></li>
-                  <li>Delay: <strong>{delay} seconds</strong></li>
+                  <li>Delay: <strong>{pacing.minDelay === pacing.maxDelay ? pacing.minDelay : `${pacing.minDelay}-${pacing.maxDelay}`} seconds</strong></li>
+                  {pacing.breakEvery > 0 && (
+                    <li>Breaks: <strong>{pacing.breakMinMinutes}-{pacing.breakMaxMinutes} minutes every {pacing.breakEvery} messages</strong></li>
+                  )}
+                  {(pacing.maxPerHour > 0 || pacing.maxPerDay > 0) && (
+                    <li>
+                      Limits: <strong>
+                        {[pacing.maxPerHour > 0 && `${pacing.maxPerHour} per hour`, pacing.maxPerDay > 0 && `${pacing.maxPerDay} per day`].filter(Boolean).join(', ')}
+                      </strong>
+                    </li>
+                  )}
+                  {estimatedFinish && (
+                    <li>Estimated finish if started now: <strong>{new Date(estimatedFinish).toLocaleString()}</strong></li>
+                  )}
+                  {attachment.trim() && (
+                    <li>Attachment: <strong className="font-mono">{attachment.trim()}</strong></li>
+                  )}
                   {selectedRows.length > 0 && (
                     <li className="text-purple-700">
                       <strong>Sending to selected rows only</strong>
                     </li>
                   )}
+                  {validationReport && excludeFlagged && validationReport.flagged > 0 && (
+                    <li className="text-yellow-700">
+                      <strong>Excluding {validationReport.flagged} flagged rows</strong>
+                    </li>
+                  )}
                 </ul>
               </div>
 
+              <Button onClick={handleValidate} disabled={isSending || isValidating} variant="outline" className="w-full">
+                {isValidating ? (
+                  <><Loader2 className="w-4 h-4 mr-2 animate-spin" /> Validating...</>
+                ) : (
+                  <><ClipboardCheck className="w-4 h-4 mr-2" /> Validate Before Sending</>
+                )}
+              </Button>
+
+              {dedupeDecisions.length > 0 && <DedupePreview decisions={dedupeDecisions} />}
+
+              {validationReport && (
+                <ValidationReport
+                  report={validationReport}
+                  excludeFlagged={excludeFlagged}
+                  onExcludeFlaggedChange={setExcludeFlagged}
+                />
+              )}
+
               <Button 
                 onClick={handleSendMessages} 
                 disabled={isSending}
@@ -545,53 +1772,67 @@ function App() {
                 className="w-full"
               >
                 {isSending ? (
-                  <><Loader2 className="w-4 h-4 mr-2 animate-spin" /> Sending...</>
+                  <><Loader2 className="w-4 h-4 mr-2 animate-spin" /> {campaignState === 'paused' ? 'Paused' : campaignState === 'cancelled' ? 'Cancelling...' : 'Sending...'}</>
                 ) : (
                   <><Send className="w-4 h-4 mr-2" /> Start Sending Messages</>
                 )}
               </Button>
 
-              {isSending && (
-                <div className="space-y-4">
-                  <div className="space-y-2">
-                    <div className="flex justify-between text-sm">
-                      <span>Progress</span>
-                      <span>{progress.current} / {progress.total}</span>
-                    </div>
-                    <Progress value={(progress.current / progress.total) * 100} />
-                  </div>
-
-                  <div className="space-y-2 max-h-64 overflow-y-auto">
-                    <p className="text-sm font-semibold">Recent Messages:</p>
-                    {logs.map((log, idx) => (
-                      <div key={idx} className={`text-sm p-2 rounded ${
-                        log.status === 'success' ? 'bg-green-100 text-green-800' :
-                        log.status === 'failed' ? 'bg-red-100 text-red-800' :
-                        'bg-blue-100 text-blue-800'
-                      }`}>
-                        {log.phone} - {log.status} {log.error && `(${log.error})`}
-                      </div>
-                    ))}
-                  </div>
+              <div className="flex flex-wrap items-end gap-2 p-4 rounded-lg border bg-white">
+                <div className="space-y-2">
+                  <Label>Or schedule for later</Label>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button variant="outline" className="w-48 justify-start font-normal">
+                        <CalendarClock className="w-4 h-4 mr-2" />
+                        {scheduleDate ? scheduleDate.toLocaleDateString() : 'Pick a date'}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={scheduleDate}
+                        onSelect={setScheduleDate}
+                        disabled={{ before: new Date() }}
+                      />
+                    </PopoverContent>
+                  </Popover>
                 </div>
-              )}
+                <div className="space-y-2">
+                  <Label htmlFor="schedule-time">Time</Label>
+                  <Input
+                    id="schedule-time"
+                    type="time"
+                    value={scheduleTime}
+                    onChange={(e) => setScheduleTime(e.target.value)}
+                    className="w-32"
+                  />
+                </div>
+                <Button onClick={handleScheduleCampaign} disabled={!scheduleDate || isSending} variant="secondary">
+                  Schedule Campaign
+                </Button>
+              </div>
 
-              {results && (
-                <div className="grid grid-cols-3 gap-4">
-                  <div className="bg-green-100 border border-green-200 rounded-lg p-4 text-center">
-                    <div className="text-3xl font-bold text-green-700">{results.success}</div>
-                    <div className="text-sm text-green-600">Successful</div>
-                  </div>
-                  <div className="bg-red-100 border border-red-200 rounded-lg p-4 text-center">
-                    <div className="text-3xl font-bold text-red-700">{results.failed}</div>
-                    <div className="text-sm text-red-600">Failed</div>
-                  </div>
-                  <div className="bg-blue-100 border border-blue-200 rounded-lg p-4 text-center">
-                    <div className="text-3xl font-bold text-blue-700">{results.total}</div>
-                    <div className="text-sm text-blue-600">Total</div>
-                  </div>
+              <div className="flex flex-wrap items-end gap-2 p-4 rounded-lg border bg-white">
+                <div className="space-y-2">
+                  <Label htmlFor="send-at-column">Or send each row at its own time</Label>
+                  <Select value={sendAtColumn} onValueChange={setSendAtColumn}>
+                    <SelectTrigger id="send-at-column" className="w-48">
+                      <SelectValue placeholder="Send-at column..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {displayColumns.map(col => (
+                        <SelectItem key={col} value={col}>{col}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
-              )}
+                <Button onClick={handleQueueMessages} disabled={!sendAtColumn || isSending} variant="secondary">
+                  Queue Messages
+                </Button>
+              </div>
+
+              {!continuedCampaignId && campaignActivity}
             </CardContent>
           </Card>
         )}
@@ -656,9 +1897,26 @@ function App() {
                     {groupResult.success ? '✅ Group Created Successfully!' : '❌ Failed to Create Group'}
                   </p>
                   {groupResult.success ? (
-                    <p className="text-sm mt-1">
-                      Group "{groupResult.groupName}" has been created with participants from your Excel file.
-                    </p>
+                    <>
+                      <p className="text-sm mt-1">
+                        Group "{groupResult.groupName}" has been created with participants from your Excel file.
+                      </p>
+                      {groupResult.rejectedNumbers && groupResult.rejectedNumbers.length > 0 && (
+                        <div className="text-sm mt-2 text-yellow-800">
+                          <p>{groupResult.rejectedNumbers.length} invalid number(s) were left out:</p>
+                          <ul className="list-disc ml-5">
+                            {groupResult.rejectedNumbers.map((rejected, idx) => (
+                              <li key={idx}>{rejected.phone}: {rejected.reason}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                      {groupResult.suppressedNumbers && groupResult.suppressedNumbers.length > 0 && (
+                        <p className="text-sm mt-2 text-yellow-800">
+                          {groupResult.suppressedNumbers.length} number(s) on the do-not-contact list were left out.
+                        </p>
+                      )}
+                    </>
                   ) : (
                     <p className="text-sm mt-1">
                       Error: {groupResult.error}
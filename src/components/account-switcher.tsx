@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { CampaignState, ConnectionState, WhatsAppAccount } from '../types';
+import { DISCONNECTED, describeConnection } from '../lib/connection';
+
+interface AccountSwitcherProps {
+  accounts: WhatsAppAccount[];
+  selectedAccountId: string;
+  connections: Record<string, ConnectionState>;
+  campaignStates: Record<string, CampaignState>;
+  onSelect: (accountId: string) => void;
+  onAdd: (name: string) => Promise<boolean>;
+  onRemove: (account: WhatsAppAccount) => void;
+  onSetDailyCap: (account: WhatsAppAccount, dailyCap: number) => void;
+}
+
+export function AccountSwitcher({ accounts, selectedAccountId, connections, campaignStates, onSelect, onAdd, onRemove, onSetDailyCap }: AccountSwitcherProps) {
+  const [name, setName] = useState<string>('');
+
+  const handleAdd = async () => {
+    if (name.trim() && await onAdd(name)) {
+      setName('');
+    }
+  };
+
+  const describe = (account: WhatsAppAccount) => {
+    const state = campaignStates[account.id];
+    const sending = state && state !== 'idle' ? ', sending a campaign' : '';
+    return `${account.name} - ${describeConnection(connections[account.id] ?? DISCONNECTED)}${sending}`;
+  };
+
+  const selected = accounts.find(account => account.id === selectedAccountId);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        <Select value={selectedAccountId} onValueChange={onSelect}>
+          <SelectTrigger className="flex-1 min-w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {accounts.map(account => (
+              <SelectItem key={account.id} value={account.id}>{describe(account)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {/* The main account is always listed first and can't be removed */}
+        {selected && selected.id !== accounts[0]?.id && (
+          <Button onClick={() => onRemove(selected)} variant="ghost" title="Remove account">
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder="New account name, e.g. Support line"
+          className="flex-1 min-w-48"
+        />
+        <Button onClick={handleAdd} variant="outline" disabled={!name.trim()}>
+          <Plus className="w-4 h-4 mr-2" /> Add account
+        </Button>
+      </div>
+      {selected && (
+        <div className="flex items-center gap-2 text-sm">
+          <Label htmlFor="daily-cap" className="font-normal">Send at most</Label>
+          <Input
+            key={selected.id}
+            id="daily-cap"
+            type="number"
+            min="0"
+            defaultValue={selected.dailyCap ?? 0}
+            onBlur={(e) => onSetDailyCap(selected, Math.max(0, Number(e.target.value) || 0))}
+            className="w-24"
+          />
+          <span>messages a day from {selected.name} (0 = no limit)</span>
+        </div>
+      )}
+    </div>
+  );
+}
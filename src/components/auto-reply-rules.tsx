@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Textarea } from './ui/textarea';
+import { AutoReplyMatch, AutoReplyRule, CampaignSummary } from '../types';
+
+type RuleDraft = Omit<AutoReplyRule, 'id'> & { id?: string };
+
+// Select items can't have an empty value, so "every campaign" gets its own
+const ALL_CAMPAIGNS = 'all';
+
+const MATCH_LABELS: Record<AutoReplyMatch, string> = {
+  keyword: 'Reply is a keyword',
+  regex: 'Reply matches a regular expression',
+  any: 'Any reply'
+};
+
+const EMPTY_RULE: RuleDraft = {
+  name: '',
+  enabled: true,
+  match: 'keyword',
+  pattern: '',
+  template: '',
+  cooldownMinutes: 60
+};
+
+function describeCampaign(campaign: CampaignSummary): string {
+  const name = campaign.filePath ? campaign.filePath.split(/[\\/]/).pop() : 'Campaign';
+  return `${name}${campaign.sheetName ? ` (${campaign.sheetName})` : ''} - ${new Date(campaign.createdAt).toLocaleString()}`;
+}
+
+interface AutoReplyRulesProps {
+  rules: AutoReplyRule[];
+  campaigns: CampaignSummary[];
+  onSave: (rule: RuleDraft) => Promise<boolean>;
+  onRemove: (rule: AutoReplyRule) => void;
+}
+
+export function AutoReplyRules({ rules, campaigns, onSave, onRemove }: AutoReplyRulesProps) {
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+
+  const handleSave = async () => {
+    if (draft && await onSave(draft)) {
+      setDraft(null);
+    }
+  };
+
+  const campaignName = (campaignId?: string) => {
+    if (!campaignId) return 'All campaigns';
+    const campaign = campaigns.find(candidate => candidate.id === campaignId);
+    return campaign ? describeCampaign(campaign) : 'A removed campaign';
+  };
+
+  return (
+    <div className="space-y-4">
+      {rules.length === 0 && !draft && (
+        <p className="text-sm text-gray-500">No rules yet. Rules are checked from top to bottom and the first match answers.</p>
+      )}
+
+      <div className="space-y-2">
+        {rules.map(rule => (
+          <div key={rule.id} className="flex items-center justify-between gap-4 p-4 rounded-lg border bg-white">
+            <div className="text-sm space-y-1 min-w-0">
+              <p className="font-semibold flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => onSave({ ...rule, enabled: e.target.checked })}
+                  className="w-4 h-4 rounded border-gray-300"
+                />
+                {rule.name || 'Untitled rule'}
+                <Badge variant="secondary">{MATCH_LABELS[rule.match]}</Badge>
+              </p>
+              {rule.match !== 'any' && <p className="font-mono text-xs text-gray-600 truncate">{rule.pattern}</p>}
+              <p className="text-gray-600">
+                {campaignName(rule.campaignId)}, at most once every {rule.cooldownMinutes} min per contact
+              </p>
+              <p className="text-gray-500 truncate">{rule.template}</p>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={() => setDraft(rule)} variant="outline" size="sm">
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button onClick={() => onRemove(rule)} variant="ghost" size="sm">
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {draft ? (
+        <div className="space-y-3 p-4 rounded-lg border bg-white">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Name</Label>
+              <Input
+                id="rule-name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. Opening hours"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-campaign">Campaign</Label>
+              <Select
+                value={draft.campaignId ?? ALL_CAMPAIGNS}
+                onValueChange={(value) => setDraft({ ...draft, campaignId: value === ALL_CAMPAIGNS ? undefined : value })}
+              >
+                <SelectTrigger id="rule-campaign">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_CAMPAIGNS}>All campaigns</SelectItem>
+                  {campaigns.map(campaign => (
+                    <SelectItem key={campaign.id} value={campaign.id}>{describeCampaign(campaign)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-match">Answer when</Label>
+              <Select value={draft.match} onValueChange={(value) => setDraft({ ...draft, match: value as AutoReplyMatch })}>
+                <SelectTrigger id="rule-match">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(MATCH_LABELS) as AutoReplyMatch[]).map(match => (
+                    <SelectItem key={match} value={match}>{MATCH_LABELS[match]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-cooldown">Cooldown per contact (minutes)</Label>
+              <Input
+                id="rule-cooldown"
+                type="number"
+                min="0"
+                value={draft.cooldownMinutes}
+                onChange={(e) => setDraft({ ...draft, cooldownMinutes: Math.max(0, Number(e.target.value) || 0) })}
+              />
+            </div>
+          </div>
+
+          {draft.match !== 'any' && (
+            <div className="space-y-2">
+              <Label htmlFor="rule-pattern">
+                {draft.match === 'keyword' ? 'Keywords (comma separated, the whole reply must match)' : 'Regular expression (case insensitive)'}
+              </Label>
+              <Input
+                id="rule-pattern"
+                value={draft.pattern}
+                onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+                placeholder={draft.match === 'keyword' ? 'HOURS, OPEN, TIMING' : 'when.*(open|close)'}
+                className={draft.match === 'regex' ? 'font-mono' : undefined}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="rule-template">Reply (columns of the contact's row can be used, e.g. {'{Name}'})</Label>
+            <Textarea
+              id="rule-template"
+              value={draft.template}
+              onChange={(e) => setDraft({ ...draft, template: e.target.value })}
+              rows={3}
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={handleSave} size="sm">Save rule</Button>
+            <Button onClick={() => setDraft(null)} variant="outline" size="sm">Cancel</Button>
+          </div>
+        </div>
+      ) : (
+        <Button onClick={() => setDraft(EMPTY_RULE)} variant="outline" size="sm">
+          <Plus className="w-4 h-4 mr-2" /> Add rule
+        </Button>
+      )}
+    </div>
+  );
+}
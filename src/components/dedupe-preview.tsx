@@ -0,0 +1,43 @@
+import { Copy } from 'lucide-react';
+import { DedupeDecision, DedupeStrategy } from '../types';
+
+// Long lists only show the first numbers; the count covers everything
+const MAX_VISIBLE = 50;
+
+const STRATEGY_LABELS: Record<DedupeStrategy, string> = {
+  none: 'every row is sent',
+  first: 'first row wins',
+  last: 'last row wins',
+  merge: 'rows merged into one message'
+};
+
+interface DedupePreviewProps {
+  decisions: DedupeDecision[];
+}
+
+export function DedupePreview({ decisions }: DedupePreviewProps) {
+  const droppedRows = decisions.reduce((count, decision) => count + decision.rowIndexes.length - 1, 0);
+
+  return (
+    <div className="bg-white border rounded-lg p-4 space-y-2">
+      <p className="font-semibold flex items-center gap-2">
+        <Copy className="w-4 h-4" />
+        {decisions.length} numbers appear in more than one row ({droppedRows} extra rows, {STRATEGY_LABELS[decisions[0].strategy]})
+      </p>
+      <div className="max-h-48 overflow-y-auto space-y-1 text-sm">
+        {decisions.slice(0, MAX_VISIBLE).map(decision => (
+          <p key={decision.e164} className="text-gray-700">
+            <span className="font-mono">{decision.e164}</span>: rows {decision.rowIndexes.map(index => index + 1).join(', ')}
+            {' → '}
+            {decision.strategy === 'merge'
+              ? 'one message'
+              : `only row ${decision.keptRowIndex + 1} is sent`}
+          </p>
+        ))}
+      </div>
+      {decisions.length > MAX_VISIBLE && (
+        <p className="text-sm text-gray-600">Showing the first {MAX_VISIBLE} of {decisions.length} numbers</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { FileUp, Plus, Trash2 } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { SuppressedContact, SuppressionSource } from '../types';
+
+// Long lists only show the newest entries matching the search
+const MAX_VISIBLE = 100;
+
+const SOURCE_LABELS: Record<SuppressionSource, string> = {
+  manual: 'Added manually',
+  import: 'Imported',
+  reply: 'Opted out by reply'
+};
+
+interface DoNotContactListProps {
+  contacts: SuppressedContact[];
+  onAdd: (phones: string[]) => void;
+  onRemove: (contact: SuppressedContact) => void;
+  onImport: () => void;
+}
+
+export function DoNotContactList({ contacts, onAdd, onRemove, onImport }: DoNotContactListProps) {
+  const [input, setInput] = useState<string>('');
+  const [search, setSearch] = useState<string>('');
+
+  const handleAdd = () => {
+    const phones = input.split(/[,;\n]/).map(phone => phone.trim()).filter(Boolean);
+    if (phones.length === 0) return;
+    onAdd(phones);
+    setInput('');
+  };
+
+  const digits = search.replace(/\D/g, '');
+  const matching = digits ? contacts.filter(contact => contact.e164.includes(digits)) : contacts;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder="Phone numbers, separated by commas"
+          className="flex-1"
+        />
+        <Button onClick={handleAdd} variant="outline" disabled={!input.trim()}>
+          <Plus className="w-4 h-4 mr-2" /> Add
+        </Button>
+        <Button onClick={onImport} variant="outline">
+          <FileUp className="w-4 h-4 mr-2" /> Import Excel/CSV
+        </Button>
+      </div>
+
+      {contacts.length > 0 && (
+        <>
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={`Search ${contacts.length} numbers...`}
+          />
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {matching.slice(0, MAX_VISIBLE).map(contact => (
+              <div key={contact.e164} className="flex items-center justify-between gap-4 px-3 py-2 rounded border bg-white text-sm">
+                <span className="flex items-center gap-2">
+                  <span className="font-mono">{contact.e164}</span>
+                  <Badge variant="secondary">{SOURCE_LABELS[contact.source]}</Badge>
+                  <span className="text-gray-500">{new Date(contact.addedAt).toLocaleDateString()}</span>
+                  {contact.note && <span className="text-gray-500">{contact.note}</span>}
+                </span>
+                <Button onClick={() => onRemove(contact)} variant="ghost" size="sm">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+          {matching.length > MAX_VISIBLE && (
+            <p className="text-sm text-gray-600">Showing {MAX_VISIBLE} of {matching.length} numbers</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
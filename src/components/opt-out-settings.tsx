@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { OptOutSettings } from '../types';
+
+interface OptOutSettingsFormProps {
+  settings: OptOutSettings;
+  onSave: (settings: OptOutSettings) => void;
+}
+
+export function OptOutSettingsForm({ settings, onSave }: OptOutSettingsFormProps) {
+  const [draft, setDraft] = useState<OptOutSettings>(settings);
+  const [keywords, setKeywords] = useState<string>(settings.keywords.join(', '));
+
+  useEffect(() => {
+    setDraft(settings);
+    setKeywords(settings.keywords.join(', '));
+  }, [settings]);
+
+  const handleSave = () => {
+    onSave({ ...draft, keywords: keywords.split(',').map(keyword => keyword.trim()).filter(Boolean) });
+  };
+
+  return (
+    <div className="space-y-3 p-4 rounded-lg border bg-white">
+      <label className="flex items-center gap-2 text-sm font-medium">
+        <input
+          type="checkbox"
+          checked={draft.enabled}
+          onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+          className="w-4 h-4 rounded border-gray-300"
+        />
+        Add people who reply with an opt-out keyword to this list automatically
+      </label>
+
+      <div className="space-y-2">
+        <Label htmlFor="opt-out-keywords" className="text-sm font-normal">Opt-out keywords (comma separated, the whole reply must match)</Label>
+        <Input
+          id="opt-out-keywords"
+          value={keywords}
+          onChange={(e) => setKeywords(e.target.value)}
+          disabled={!draft.enabled}
+        />
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={draft.sendConfirmation}
+          onChange={(e) => setDraft({ ...draft, sendConfirmation: e.target.checked })}
+          disabled={!draft.enabled}
+          className="w-4 h-4 rounded border-gray-300"
+        />
+        Send a confirmation reply
+      </label>
+      {draft.sendConfirmation && (
+        <Textarea
+          value={draft.confirmationMessage}
+          onChange={(e) => setDraft({ ...draft, confirmationMessage: e.target.value })}
+          disabled={!draft.enabled}
+          rows={2}
+        />
+      )}
+
+      <Button onClick={handleSave} variant="outline" size="sm">
+        Save opt-out settings
+      </Button>
+    </div>
+  );
+}
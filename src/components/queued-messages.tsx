@@ -0,0 +1,83 @@
+import { Clock, Loader2, XCircle } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { QueuedMessage, QueuedMessageStatus } from '../types';
+
+// Long queues only list the next messages; the counts still cover everything
+const MAX_VISIBLE = 100;
+
+const STATUS_LABELS: Record<QueuedMessageStatus, string> = {
+  queued: 'Queued',
+  sending: 'Sending',
+  sent: 'Sent',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+interface QueuedMessagesProps {
+  messages: QueuedMessage[];
+  isConnected: boolean;
+  onCancel: (message: QueuedMessage) => void;
+  // Cancel every queued message of the message's campaign
+  onCancelCampaign: (message: QueuedMessage) => void;
+  onClearFinished: () => void;
+}
+
+export function QueuedMessages({ messages, isConnected, onCancel, onCancelCampaign, onClearFinished }: QueuedMessagesProps) {
+  const upcoming = messages.filter(m => m.status === 'queued' || m.status === 'sending');
+  const finished = messages.filter(m => m.status !== 'queued' && m.status !== 'sending');
+  const visible = [...upcoming, ...finished].slice(0, MAX_VISIBLE);
+  const overdue = upcoming.some(m => m.status === 'queued' && new Date(m.sendAt).getTime() <= Date.now());
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-4 text-sm">
+        <p className="text-gray-600">
+          {upcoming.length} upcoming, {finished.filter(m => m.status === 'sent').length} sent, {finished.filter(m => m.status === 'failed').length} failed
+        </p>
+        {finished.length > 0 && (
+          <Button onClick={onClearFinished} variant="ghost" size="sm">
+            Clear finished
+          </Button>
+        )}
+      </div>
+      {overdue && !isConnected && (
+        <p className="text-sm text-yellow-700">Some messages are due, waiting for WhatsApp to connect</p>
+      )}
+      <div className="max-h-96 overflow-y-auto space-y-2">
+        {visible.map(message => (
+          <div key={message.id} className="flex items-center justify-between gap-4 p-3 rounded-lg border bg-white text-sm">
+            <div className="space-y-1">
+              <p className="font-semibold flex items-center gap-2">
+                <Clock className="w-4 h-4" />
+                {new Date(message.sendAt).toLocaleString()}
+                <Badge variant={message.status === 'failed' ? 'destructive' : message.status === 'queued' ? 'default' : 'secondary'}>
+                  {message.status === 'sending' && <Loader2 className="animate-spin" />}
+                  {STATUS_LABELS[message.status]}
+                </Badge>
+              </p>
+              <p className="text-gray-600">
+                Row {message.rowIndex + 1}: {message.phone}
+                {message.sentAt && ` (sent ${new Date(message.sentAt).toLocaleString()})`}
+              </p>
+              {message.error && <p className="text-red-700">{message.error}</p>}
+            </div>
+            {message.status === 'queued' && (
+              <div className="flex gap-2">
+                <Button onClick={() => onCancel(message)} variant="outline" size="sm">
+                  <XCircle className="w-4 h-4 mr-2" /> Cancel
+                </Button>
+                <Button onClick={() => onCancelCampaign(message)} variant="ghost" size="sm">
+                  Cancel campaign
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      {messages.length > MAX_VISIBLE && (
+        <p className="text-sm text-gray-600">Showing the first {MAX_VISIBLE} of {messages.length} messages</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { CheckCheck, Paperclip } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { InboxCampaign } from '../types';
+
+interface ReplyInboxProps {
+  campaigns: InboxCampaign[];
+  onMarkRead: (campaignId: string) => void;
+}
+
+function describeCampaign(campaign: InboxCampaign): string {
+  const name = campaign.filePath ? campaign.filePath.split(/[\\/]/).pop() : 'Campaign';
+  const sheet = campaign.sheetName ? ` (${campaign.sheetName})` : '';
+  const date = campaign.createdAt ? ` - ${new Date(campaign.createdAt).toLocaleString()}` : '';
+  return `${name}${sheet}${date}`;
+}
+
+export function ReplyInbox({ campaigns, onMarkRead }: ReplyInboxProps) {
+  const [selectedId, setSelectedId] = useState<string>('');
+
+  // Campaigns arrive with the most recent reply first, so default to that one
+  const selected = campaigns.find(campaign => campaign.campaignId === selectedId) ?? campaigns[0];
+  if (!selected) {
+    return <p className="text-sm text-gray-500">No replies yet</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Select value={selected.campaignId} onValueChange={setSelectedId}>
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {campaigns.map(campaign => (
+              <SelectItem key={campaign.campaignId} value={campaign.campaignId}>
+                {describeCampaign(campaign)}
+                {campaign.unread > 0 && ` - ${campaign.unread} unread`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={() => onMarkRead(selected.campaignId)} variant="outline" disabled={selected.unread === 0}>
+          <CheckCheck className="w-4 h-4 mr-2" /> Mark as read
+        </Button>
+      </div>
+
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {selected.replies.map(reply => (
+          <div key={reply.id} className={`p-4 rounded-lg border text-sm space-y-2 ${reply.read ? 'bg-white' : 'bg-blue-50 border-blue-200'}`}>
+            <p className="font-semibold flex items-center gap-2">
+              {reply.e164}
+              <span className="font-normal text-gray-500">Row {reply.rowIndex + 1}</span>
+              <span className="font-normal text-gray-500">{new Date(reply.receivedAt).toLocaleString()}</span>
+              {!reply.read && <Badge>New</Badge>}
+            </p>
+            {reply.body && <p className="whitespace-pre-wrap">{reply.body}</p>}
+            {reply.hasMedia && (
+              <p className="flex items-center gap-1 text-gray-600">
+                <Paperclip className="w-4 h-4" /> Media attachment (open WhatsApp to view)
+              </p>
+            )}
+            {reply.sentMessage && (
+              <p className="pl-3 border-l-2 text-gray-500 whitespace-pre-wrap">
+                {reply.sentMessage}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
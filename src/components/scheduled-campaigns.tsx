@@ -0,0 +1,71 @@
+import { CalendarClock, Download, Loader2, Trash2, XCircle } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { ExportFormat, ScheduledCampaign, ScheduleStatus } from '../types';
+
+const STATUS_LABELS: Record<ScheduleStatus, string> = {
+  scheduled: 'Scheduled',
+  running: 'Running',
+  completed: 'Completed',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+interface ScheduledCampaignsProps {
+  schedules: ScheduledCampaign[];
+  isConnected: boolean;
+  onCancel: (schedule: ScheduledCampaign) => void;
+  onRemove: (schedule: ScheduledCampaign) => void;
+  onExport: (campaignId: string, format: ExportFormat) => void;
+}
+
+export function ScheduledCampaigns({ schedules, isConnected, onCancel, onRemove, onExport }: ScheduledCampaignsProps) {
+  return (
+    <div className="space-y-2">
+      {schedules.map(schedule => {
+        const isDue = schedule.status === 'scheduled' && new Date(schedule.startAt).getTime() <= Date.now();
+
+        return (
+          <div key={schedule.id} className="flex items-center justify-between gap-4 p-4 rounded-lg border bg-white">
+            <div className="text-sm space-y-1">
+              <p className="font-semibold flex items-center gap-2">
+                <CalendarClock className="w-4 h-4" />
+                {new Date(schedule.startAt).toLocaleString()}
+                <Badge variant={schedule.status === 'failed' ? 'destructive' : schedule.status === 'scheduled' ? 'default' : 'secondary'}>
+                  {schedule.status === 'running' && <Loader2 className="animate-spin" />}
+                  {STATUS_LABELS[schedule.status]}
+                </Badge>
+              </p>
+              <p className="text-gray-600">
+                {schedule.rowCount} messages
+                {schedule.options.filePath && ` from ${schedule.options.filePath}`}
+                {schedule.options.sheetName && ` (${schedule.options.sheetName})`}
+              </p>
+              {isDue && !isConnected && (
+                <p className="text-yellow-700">Due now, waiting for WhatsApp to connect</p>
+              )}
+              {schedule.error && <p className="text-red-700">{schedule.error}</p>}
+            </div>
+            <div className="flex gap-2">
+              {schedule.status === 'scheduled' && (
+                <Button onClick={() => onCancel(schedule)} variant="outline" size="sm">
+                  <XCircle className="w-4 h-4 mr-2" /> Cancel
+                </Button>
+              )}
+              {schedule.status === 'completed' && schedule.campaignId && (
+                <Button onClick={() => onExport(schedule.campaignId as string, 'xlsx')} variant="outline" size="sm">
+                  <Download className="w-4 h-4 mr-2" /> Export
+                </Button>
+              )}
+              {schedule.status !== 'scheduled' && schedule.status !== 'running' && (
+                <Button onClick={() => onRemove(schedule)} variant="ghost" size="sm">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
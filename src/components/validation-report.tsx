@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { RowValidation, ValidationIssueCode, ValidationReport as Report } from '../types';
+
+type ReportFilter = 'flagged' | 'errors' | 'warnings' | 'all' | ValidationIssueCode;
+
+const ISSUE_LABELS: Record<ValidationIssueCode, string> = {
+  'missing-phone': 'Missing phone',
+  'invalid-phone': 'Invalid phone',
+  'duplicate-phone': 'Duplicate recipient',
+  'unresolved-placeholder': 'Unresolved placeholder',
+  'message-too-long': 'Message too long',
+  'empty-message': 'Empty message',
+  'missing-attachment': 'Missing attachment'
+};
+
+interface ValidationReportProps {
+  report: Report;
+  excludeFlagged: boolean;
+  onExcludeFlaggedChange: (exclude: boolean) => void;
+}
+
+function matchesFilter(row: RowValidation, filter: ReportFilter): boolean {
+  switch (filter) {
+    case 'all':
+      return true;
+    case 'flagged':
+      return row.issues.length > 0;
+    case 'errors':
+      return row.issues.some(issue => issue.severity === 'error');
+    case 'warnings':
+      return row.issues.some(issue => issue.severity === 'warning');
+    default:
+      return row.issues.some(issue => issue.code === filter);
+  }
+}
+
+export function ValidationReport({ report, excludeFlagged, onExcludeFlaggedChange }: ValidationReportProps) {
+  const [filter, setFilter] = useState<ReportFilter>('flagged');
+
+  const visibleRows = report.rows.filter(row => matchesFilter(row, filter));
+  const countByCode = (code: ValidationIssueCode) =>
+    report.rows.filter(row => row.issues.some(issue => issue.code === code)).length;
+
+  if (report.flagged === 0) {
+    return (
+      <div className="flex items-center gap-2 bg-green-50 border border-green-200 rounded-lg p-4 text-sm text-green-800">
+        <CheckCircle className="w-4 h-4" />
+        All {report.total} rows passed validation
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border bg-white">
+      <div className="p-4 border-b flex flex-wrap items-end justify-between gap-4">
+        <div className="space-y-1 text-sm">
+          <p className="font-semibold flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 text-yellow-600" />
+            {report.flagged} of {report.total} rows flagged ({report.errors} with errors)
+          </p>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={excludeFlagged}
+              onChange={(e) => onExcludeFlaggedChange(e.target.checked)}
+              className="w-4 h-4 rounded border-gray-300"
+            />
+            Exclude flagged rows when sending
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="validation-filter">Show</Label>
+          <Select value={filter} onValueChange={(value) => setFilter(value as ReportFilter)}>
+            <SelectTrigger id="validation-filter" className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="flagged">All flagged rows</SelectItem>
+              <SelectItem value="errors">Errors only</SelectItem>
+              <SelectItem value="warnings">Warnings only</SelectItem>
+              {(Object.keys(ISSUE_LABELS) as ValidationIssueCode[]).map(code => (
+                <SelectItem key={code} value={code}>
+                  {ISSUE_LABELS[code]} ({countByCode(code)})
+                </SelectItem>
+              ))}
+              <SelectItem value="all">All rows</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="max-h-[300px] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-16">#</TableHead>
+              <TableHead>Phone</TableHead>
+              <TableHead>Issues</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleRows.map(row => (
+              <TableRow key={row.rowIndex}>
+                <TableCell className="font-mono text-xs text-gray-500">{row.rowIndex + 1}</TableCell>
+                <TableCell>{row.phone}</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {row.issues.length === 0 && <span className="text-sm text-green-700">OK</span>}
+                    {row.issues.map((issue, idx) => (
+                      <Badge key={idx} variant={issue.severity === 'error' ? 'destructive' : 'secondary'} title={issue.message}>
+                        {issue.severity === 'error' ? <XCircle /> : <AlertTriangle />}
+                        {issue.message}
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
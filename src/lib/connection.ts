@@ -0,0 +1,31 @@
+import { ConnectionPhase, ConnectionState } from '../types';
+
+// State of an account that was never connected in this session
+export const DISCONNECTED: ConnectionState = { phase: 'disconnected', since: new Date(0).toISOString() };
+
+const PHASE_LABELS: Record<ConnectionPhase, string> = {
+  disconnected: 'Disconnected',
+  launching: 'Starting browser...',
+  awaiting_qr: 'Waiting for QR scan',
+  authenticating: 'Logging in...',
+  syncing: 'Loading chats...',
+  ready: 'Connected',
+  reconnecting: 'Reconnecting...',
+  failed: 'Failed'
+};
+
+// One-line status, e.g. "Loading chats (40%)..." or "Reconnecting (attempt 2 of 10): Starting browser..."
+export function describeConnection(state: ConnectionState): string {
+  let label = PHASE_LABELS[state.phase];
+  if (state.phase === 'syncing' && state.percent !== undefined) {
+    label = `Loading chats (${state.percent}%)...`;
+  } else if (state.phase === 'failed' && state.error) {
+    label = `Failed: ${state.error}`;
+  }
+
+  if (!state.reconnect) {
+    return label;
+  }
+  const attempt = `Reconnecting (attempt ${state.reconnect.attempt} of ${state.reconnect.maxAttempts})`;
+  return state.phase === 'reconnecting' ? `${attempt}...` : `${attempt}: ${label}`;
+}
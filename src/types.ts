@@ -3,19 +3,81 @@ export interface ExcelRow {
   __rowIndex?: number;
 }
 
+export type NormalizedPhone =
+  | { valid: true; input: string; countryCode: string; e164: string }
+  | { valid: false; input: string; reason: string };
+
 export interface MessageResult {
   phone: string;
   status: 'success' | 'failed';
   error?: string;
+  // WhatsApp message ID of a sent message, used to match delivery and read receipts
+  messageId?: string;
+}
+
+// What WhatsApp reported after a message was sent: accepted by the server, delivered to the
+// recipient's phone, read (or a voice note played), or failed after being accepted
+export type DeliveryStatus = 'sent' | 'delivered' | 'read' | 'failed';
+
+export interface MessageAckEvent {
+  messageId: string;
+  status: DeliveryStatus;
+  timestamp: string;
+}
+
+export interface DeliveryReceipt {
+  campaignId: string;
+  rowIndex: number;
+  messageId: string;
+  status: DeliveryStatus;
+  timestamp: string;
+}
+
+// 'duplicate' rows were left out because another row for the same number was sent instead,
+// 'suppressed' rows because the number is on the do-not-contact list
+export type RowStatus = 'success' | 'failed' | 'cancelled' | 'unregistered' | 'duplicate' | 'suppressed';
+
+export interface SendMessageDetail {
+  index: number;
+  rowIndex: number;
+  phone: string;
+  e164?: string;
+  status: RowStatus;
+  error?: string;
+  message?: string;
+  attachment?: AttachmentResult;
+  // Send attempts made, when the row was retried
+  attempts?: number;
+  // Row whose message this row was merged into
+  mergedInto?: number;
+  messageId?: string;
+  // Account the row was sent from
+  accountId?: string;
+  timestamp: string;
+}
+
+export interface AttachmentResult {
+  // Rendered path or URL of the file
+  source: string;
+  status: 'attached' | 'failed';
+  error?: string;
+}
+
+export interface SendMessagesResults {
+  total: number;
+  success: number;
+  failed: number;
+  cancelled: number;
+  // Rows skipped because the number has no WhatsApp account
+  unregistered: number;
+  duplicate: number;
+  suppressed: number;
+  details: SendMessageDetail[];
 }
 
 export interface SendMessagesResult {
   success: boolean;
-  results?: {
-    success: number;
-    failed: number;
-    total: number;
-  };
+  results?: SendMessagesResults;
   error?: string;
 }
 
@@ -31,33 +93,324 @@ export interface GetSheetsResult {
   error?: string;
 }
 
+// How messages are spread out over time. Limits of 0 mean unlimited.
+export interface PacingPolicy {
+  // Random wait between messages, in seconds
+  minDelay: number;
+  maxDelay: number;
+  // Take a longer break after every N sent messages
+  breakEvery: number;
+  breakMinMinutes: number;
+  breakMaxMinutes: number;
+  // Caps on sent messages in any rolling hour / 24 hours, counted across all campaigns of the sending account
+  maxPerHour: number;
+  maxPerDay: number;
+}
+
+// How rows that share a phone number are handled; see recipient-dedupe.ts
+export type DedupeStrategy = 'none' | 'first' | 'last' | 'merge';
+
+export interface DedupeDecision {
+  e164: string;
+  strategy: DedupeStrategy;
+  // Row the message is sent for
+  keptRowIndex: number;
+  // Every row with this number, in sheet order
+  rowIndexes: number[];
+}
+
+// Retries for sends that fail with a transient error, in seconds
+export interface RetryPolicy {
+  // Total attempts per row, including the first
+  maxAttempts: number;
+  // Wait after the first failure; doubles after each further failure up to maxDelay
+  baseDelay: number;
+  maxDelay: number;
+}
+
 export interface SendMessagesOptions {
   data: ExcelRow[];
   phoneColumn: string;
   template: string;
+  // Fixed delay in seconds, used when no pacing policy is given
   delay: number;
+  pacing?: PacingPolicy;
+  retry?: RetryPolicy;
+  dedupe?: DedupeStrategy;
+  filePath?: string;
+  sheetName?: string;
+  // Fail rows whose rendered message still has unresolved placeholders instead of sending them
+  strictTemplate?: boolean;
+  // Calling code applied to numbers written without one, e.g. '91'
+  defaultCountryCode?: string;
+  // Look up each number first and skip the ones not on WhatsApp
+  skipUnregistered?: boolean;
+  // Path or URL of a file to send with every message; may use placeholders, e.g. '{InvoicePath}'
+  attachment?: string;
+  // WhatsApp account that sends the campaign; the default account when not set
+  accountId?: string;
+  // Accounts to spread the campaign over instead, see account-balancer.ts
+  accountPool?: string[];
+  balancing?: BalanceStrategy;
+}
+
+// How a campaign's rows are shared between the accounts of its pool
+export type BalanceStrategy = 'round-robin' | 'weighted';
+
+export interface RecipientCheck {
+  rowIndex: number;
+  phone: string;
+  e164?: string;
+  status: 'registered' | 'unregistered' | 'invalid' | 'error';
+  reason?: string;
+}
+
+export interface TemplateIssue {
+  rowIndex: number;
+  unresolved: string[];
+}
+
+export type ValidationIssueCode =
+  | 'missing-phone'
+  | 'invalid-phone'
+  | 'duplicate-phone'
+  | 'unresolved-placeholder'
+  | 'message-too-long'
+  | 'empty-message'
+  | 'missing-attachment';
+
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface RowValidation {
+  rowIndex: number;
+  phone: string;
+  message: string;
+  issues: ValidationIssue[];
+}
+
+export interface ValidationReport {
+  total: number;
+  flagged: number;
+  errors: number;
+  rows: RowValidation[];
+}
+
+// 'queued' campaigns send each row at its own time through the message queue
+export type CampaignStatus = 'running' | 'completed' | 'cancelled' | 'interrupted' | 'queued';
+
+export interface JournalEntry {
+  rowIndex: number;
+  phone: string;
+  status: RowStatus;
+  error?: string;
+  message?: string;
+  attachment?: AttachmentResult;
+  messageId?: string;
+  accountId?: string;
+  timestamp: string;
+}
+
+export type ScheduleStatus = 'scheduled' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ScheduledCampaign {
+  id: string;
+  createdAt: string;
+  startAt: string;
+  status: ScheduleStatus;
+  rowCount: number;
+  options: SendMessagesOptions;
+  // Journal ID of the campaign once it has run
+  campaignId?: string;
+  error?: string;
+}
+
+export type QueuedMessageStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'cancelled';
+
+export interface QueuedMessage {
+  id: string;
+  // Journal campaign holding the row, template and send options
+  campaignId: string;
+  rowIndex: number;
+  phone: string;
+  sendAt: string;
+  status: QueuedMessageStatus;
+  sentAt?: string;
+  error?: string;
+}
+
+export interface QueueRejection {
+  rowIndex: number;
+  reason: string;
+}
+
+export interface QueueMessagesResult {
+  success: boolean;
+  campaignId?: string;
+  queued?: number;
+  rejected?: QueueRejection[];
+  error?: string;
+}
+
+export type ExportFormat = 'xlsx' | 'csv';
+
+export interface CampaignRecord {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  status: CampaignStatus;
+  options: SendMessagesOptions;
+}
+
+export interface CampaignSummary {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  status: CampaignStatus;
+  filePath?: string;
+  sheetName?: string;
+  total: number;
+  processed: number;
+  pending: number;
+  accountId?: string;
 }
 
 export interface ProgressData {
   current: number;
   total: number;
   phone: string;
-  status: 'success' | 'failed' | 'sending';
+  status: 'success' | 'failed' | 'sending' | 'waiting' | 'retrying';
   error?: string;
+  // Attempt that just failed, while retrying
+  attempt?: number;
+  // Set while waiting for an hourly or daily limit to free up
+  waitUntil?: string;
+}
+
+export interface RejectedPhone {
+  phone: string;
+  reason: string;
 }
 
 export interface CreateGroupResult {
   success: boolean;
   groupId?: string;
   groupName?: string;
+  // Numbers left out of the group because they could not be normalized
+  rejectedNumbers?: RejectedPhone[];
+  // Numbers left out because they are on the do-not-contact list
+  suppressedNumbers?: string[];
   error?: string;
 }
 
+export type SuppressionSource = 'manual' | 'import' | 'reply';
+
+export interface SuppressedContact {
+  e164: string;
+  addedAt: string;
+  source: SuppressionSource;
+  note?: string;
+}
+
+export interface OptOutSettings {
+  // Add people who reply with an opt-out keyword to the do-not-contact list
+  enabled: boolean;
+  keywords: string[];
+  sendConfirmation: boolean;
+  confirmationMessage: string;
+}
+
+export interface OptOutEvent {
+  e164: string;
+  keyword: string;
+  // The reply as received
+  message: string;
+  timestamp: string;
+}
+
+export interface IncomingMessage {
+  // Sender's number
+  e164: string;
+  body: string;
+  hasMedia: boolean;
+  timestamp: string;
+  // The message was an opt-out keyword and the sender is now on the do-not-contact list
+  optedOut: boolean;
+}
+
+export interface InboxReply {
+  id: string;
+  campaignId: string;
+  // Row of the campaign the reply answers
+  rowIndex: number;
+  e164: string;
+  body: string;
+  hasMedia: boolean;
+  receivedAt: string;
+  // Rendered campaign message the recipient was sent
+  sentMessage?: string;
+  sentAt: string;
+  read: boolean;
+}
+
+export interface InboxCampaign {
+  campaignId: string;
+  createdAt?: string;
+  filePath?: string;
+  sheetName?: string;
+  unread: number;
+  replies: InboxReply[];
+}
+
+// keyword: the whole reply is one of the comma-separated keywords; regex: the pattern matches
+// anywhere in the reply; any: every reply
+export type AutoReplyMatch = 'keyword' | 'regex' | 'any';
+
+export interface AutoReplyRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  match: AutoReplyMatch;
+  pattern: string;
+  // Only replies to this campaign; every campaign when not set
+  campaignId?: string;
+  // Rendered against the recipient's row of the campaign
+  template: string;
+  // Minimum time before the same contact gets this rule's answer again
+  cooldownMinutes: number;
+}
+
 export interface CreateGroupOptions {
   groupName: string;
   participants: string[];
 }
 
+// Sent before each attempt to bring a dropped connection back
+export interface ReconnectEvent {
+  attempt: number;
+  maxAttempts: number;
+  // When the attempt starts (ISO date)
+  retryAt: string;
+}
+
+// Steps a WhatsApp connection goes through on its way to 'ready'
+export type ConnectionPhase = 'disconnected' | 'launching' | 'awaiting_qr' | 'authenticating' | 'syncing' | 'ready' | 'reconnecting' | 'failed';
+
+export interface ConnectionState {
+  phase: ConnectionPhase;
+  // How far WhatsApp is with loading chats while syncing, 0-100
+  percent?: number;
+  // Why connecting failed or the connection was lost
+  error?: string;
+  // Set while a dropped connection is being restored
+  reconnect?: ReconnectEvent;
+  // When the connection entered this phase (ISO date)
+  since: string;
+}
+
 export interface WhatsAppHandlerEvents {
   'qr': (qr: string) => void;
   'authenticated': () => void;
@@ -65,6 +418,22 @@ export interface WhatsAppHandlerEvents {
   'auth_failure': (msg: string) => void;
   'disconnected': (reason: string) => void;
   'progress': (data: ProgressData) => void;
+  'campaign_state': (state: CampaignState) => void;
+  'opt_out': (event: OptOutEvent) => void;
+  'message_received': (message: IncomingMessage) => void;
+  'message_ack': (ack: MessageAckEvent) => void;
+  'reconnecting': (event: ReconnectEvent) => void;
+  'reconnect_failed': (attempts: number) => void;
+  'connection_state': (state: ConnectionState) => void;
 }
 
-export type ConnectionStatus = 'disconnected' | 'connecting' | 'qr' | 'authenticated' | 'connected' | 'error';
+export type CampaignState = 'idle' | 'running' | 'paused' | 'cancelled';
+
+// A WhatsApp number the app can send from, with its own login session
+export interface WhatsAppAccount {
+  id: string;
+  name: string;
+  createdAt: string;
+  // Most messages the number may send in any 24 hours, across all campaigns
+  dailyCap?: number;
+}
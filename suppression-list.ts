@@ -0,0 +1,109 @@
+import { EventEmitter } from 'events';
+import XLSX from 'xlsx';
+import { ExcelRow, RejectedPhone, SuppressedContact, SuppressionSource } from './src/types.js';
+import { normalizePhoneNumber } from './phone-number.js';
+import { readJson, writeJson } from './json-store.js';
+
+// Column names tried, in order, when an imported sheet has no column picked
+const PHONE_COLUMN_PATTERN = /phone|mobile|number|whatsapp|contact/i;
+
+/**
+ * Do-not-contact list, keyed by E.164 number and kept on disk. Campaigns and group creation
+ * leave these numbers out. Emits 'updated' with the full list on every change.
+ */
+class SuppressionList extends EventEmitter {
+    private filePath: string | null;
+    private contacts: Map<string, SuppressedContact>;
+
+    // Without a file path the list only lives in memory
+    constructor(filePath?: string) {
+        super();
+        this.filePath = filePath ?? null;
+        this.contacts = new Map(
+            (filePath ? readJson<SuppressedContact[]>(filePath, []) : []).map(contact => [contact.e164, contact])
+        );
+    }
+
+    private save(): void {
+        if (this.filePath) {
+            writeJson(this.filePath, [...this.contacts.values()]);
+        }
+        this.emit('updated', this.list());
+    }
+
+    list(): SuppressedContact[] {
+        return [...this.contacts.values()].sort((a, b) => b.addedAt.localeCompare(a.addedAt));
+    }
+
+    has(e164: string): boolean {
+        return this.contacts.has(e164);
+    }
+
+    /**
+     * Add numbers to the list. Numbers that cannot be normalized are returned as rejected;
+     * numbers already on the list keep their original entry.
+     */
+    add(phones: Array<string | number>, source: SuppressionSource, defaultCountryCode?: string, note?: string): { added: number; rejected: RejectedPhone[] } {
+        const rejected: RejectedPhone[] = [];
+        let added = 0;
+
+        for (const phone of phones) {
+            const normalized = normalizePhoneNumber(phone, defaultCountryCode);
+            if (!normalized.valid) {
+                rejected.push({ phone: normalized.input, reason: normalized.reason });
+                continue;
+            }
+            if (this.contacts.has(normalized.e164)) {
+                continue;
+            }
+
+            this.contacts.set(normalized.e164, {
+                e164: normalized.e164,
+                addedAt: new Date().toISOString(),
+                source,
+                note
+            });
+            added++;
+        }
+
+        if (added > 0) {
+            this.save();
+        }
+        return { added, rejected };
+    }
+
+    remove(e164: string): void {
+        if (!this.contacts.delete(e164)) {
+            throw new Error(`${e164} is not on the do-not-contact list`);
+        }
+        this.save();
+    }
+
+    /**
+     * Import numbers from the first sheet of an Excel or CSV file. Without a phone column,
+     * the first column whose name looks like a phone column is used, else the first column.
+     */
+    importFile(filePath: string, defaultCountryCode?: string, phoneColumn?: string): { added: number; rejected: RejectedPhone[] } {
+        const workbook = XLSX.readFile(filePath);
+        const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+        // Raw values, so a number like 919876543210 isn't turned into its display text '9.19877E+11'
+        const rows = XLSX.utils.sheet_to_json(worksheet, { raw: true, defval: '' }) as ExcelRow[];
+        if (rows.length === 0) {
+            throw new Error('The file has no rows');
+        }
+
+        const columns = Object.keys(rows[0]);
+        const column = phoneColumn ?? columns.find(name => PHONE_COLUMN_PATTERN.test(name)) ?? columns[0];
+        if (!columns.includes(column)) {
+            throw new Error(`Column '${column}' not found in the file`);
+        }
+
+        const phones = rows
+            .map(row => row[column])
+            .filter((phone): phone is string | number => (typeof phone === 'string' && phone.trim() !== '') || typeof phone === 'number')
+            .map(phone => typeof phone === 'number' ? Math.floor(phone).toString() : phone);
+        return this.add(phones, 'import', defaultCountryCode);
+    }
+}
+
+export default SuppressionList;
@@ -0,0 +1,295 @@
+import { format as formatDate, isValid } from 'date-fns';
+import { ExcelRow } from './src/types.js';
+
+/**
+ * Message template language.
+ *
+ *   {Column}                       cell value (dates use the local date format)
+ *   {Column|Fallback text}         fallback when the cell is empty
+ *   {Balance|currency:INR}         formatter, optionally with an argument after ':'
+ *   {DueDate|date:dd MMM yyyy}     date-fns format pattern
+ *   {Name|upper|Customer}          pipes are applied left to right
+ *   {#if Column}...{else}...{/if}  block rendered only when the cell has a value
+ *   {#unless Column}...{/unless}   block rendered only when the cell is empty
+ *   {#each}...{/each}              block repeated for every row merged into this message,
+ *                                  e.g. one line per order when duplicate recipients are merged
+ *
+ * A pipe segment whose name matches a formatter is a formatter, anything else is a fallback.
+ * Empty cells, whitespace-only text and zero count as "no value" for conditionals.
+ */
+
+type Formatter = (value: ExcelRow[string], arg: string | undefined) => string;
+
+interface TextNode {
+    type: 'text';
+    text: string;
+}
+
+interface PlaceholderNode {
+    type: 'placeholder';
+    raw: string;
+    column: string;
+    pipes: Array<{ name: string; arg?: string }>;
+}
+
+interface ConditionalNode {
+    type: 'conditional';
+    column: string;
+    negate: boolean;
+    then: TemplateNode[];
+    otherwise: TemplateNode[];
+}
+
+interface EachNode {
+    type: 'each';
+    body: TemplateNode[];
+}
+
+type TemplateNode = TextNode | PlaceholderNode | ConditionalNode | EachNode;
+
+export interface RenderResult {
+    text: string;
+    // Placeholders that had no column in the row, or an empty cell and no fallback
+    unresolved: string[];
+}
+
+function toDate(value: ExcelRow[string]): Date | null {
+    if (value instanceof Date) {
+        return value;
+    }
+    if (typeof value === 'string' && value.trim()) {
+        const parsed = new Date(value);
+        return isValid(parsed) ? parsed : null;
+    }
+    return null;
+}
+
+function toNumber(value: ExcelRow[string]): number | null {
+    if (typeof value === 'number') {
+        return value;
+    }
+    if (typeof value === 'string' && value.trim()) {
+        const parsed = Number(value.replace(/[,\s]/g, ''));
+        return Number.isFinite(parsed) ? parsed : null;
+    }
+    return null;
+}
+
+function stringify(value: ExcelRow[string]): string {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    if (value instanceof Date) {
+        return value.toLocaleDateString();
+    }
+    return value.toString();
+}
+
+const FORMATTERS: Record<string, Formatter> = {
+    currency: (value, arg) => {
+        const amount = toNumber(value);
+        if (amount === null) return stringify(value);
+        return new Intl.NumberFormat(undefined, { style: 'currency', currency: (arg || 'USD').toUpperCase() }).format(amount);
+    },
+    number: (value, arg) => {
+        const amount = toNumber(value);
+        if (amount === null) return stringify(value);
+        const digits = arg !== undefined ? parseInt(arg, 10) : undefined;
+        return new Intl.NumberFormat(undefined, {
+            minimumFractionDigits: digits,
+            maximumFractionDigits: digits
+        }).format(amount);
+    },
+    date: (value, arg) => {
+        const date = toDate(value);
+        if (!date) return stringify(value);
+        return arg ? formatDate(date, arg) : date.toLocaleDateString();
+    },
+    upper: value => stringify(value).toUpperCase(),
+    lower: value => stringify(value).toLowerCase(),
+    capitalize: value => stringify(value).replace(/\b\p{L}/gu, letter => letter.toUpperCase()),
+    trim: value => stringify(value).trim()
+};
+
+// Values a formatter is tried on to check its argument before anything is sent
+const FORMATTER_SAMPLES: Record<string, ExcelRow[string]> = {
+    currency: 1,
+    number: 1,
+    date: new Date(0)
+};
+
+// Intl and date-fns throw on arguments they don't understand, e.g. 'XX' or 'YYYY'
+function checkFormatterArg(raw: string, name: string, arg: string | undefined): void {
+    if (name === 'number' && arg !== undefined && !/^\d+$/.test(arg)) {
+        throw new Error(`Template error: ${raw} needs a number of decimals after "number:", not "${arg}"`);
+    }
+    try {
+        FORMATTERS[name](FORMATTER_SAMPLES[name] ?? 'sample', arg);
+    } catch {
+        throw new Error(`Template error: ${raw} has an invalid ${name} argument "${arg}"`);
+    }
+}
+
+function isEmpty(value: ExcelRow[string]): boolean {
+    return value === undefined || value === null || stringify(value).trim() === '';
+}
+
+function isTruthy(value: ExcelRow[string]): boolean {
+    return !isEmpty(value) && value !== 0;
+}
+
+const TAG_PATTERN = /\{(#if|#unless)\s+([^{}]+?)\s*\}|\{(else|\/if|\/unless|#each|\/each)\}|\{([^{}#/][^{}]*)\}/g;
+
+function parsePlaceholder(raw: string, body: string): PlaceholderNode {
+    const [column, ...segments] = body.split('|');
+    return {
+        type: 'placeholder',
+        raw,
+        column: column.trim(),
+        pipes: segments.map(segment => {
+            const separator = segment.indexOf(':');
+            const name = (separator === -1 ? segment : segment.slice(0, separator)).trim();
+            if (FORMATTERS[name]) {
+                const arg = separator === -1 ? undefined : segment.slice(separator + 1).trim();
+                checkFormatterArg(raw, name, arg);
+                return { name, arg };
+            }
+            // Not a formatter, so the whole segment is a fallback value
+            return { name: '', arg: segment };
+        })
+    };
+}
+
+export function parseTemplate(template: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    const stack: Array<{ node: ConditionalNode | EachNode; inElse: boolean; closer: string }> = [];
+    const current = (): TemplateNode[] => {
+        const top = stack[stack.length - 1];
+        if (!top) return root;
+        if (top.node.type === 'each') return top.node.body;
+        return top.inElse ? top.node.otherwise : top.node.then;
+    };
+
+    let lastIndex = 0;
+    for (const match of template.matchAll(TAG_PATTERN)) {
+        const index = match.index ?? 0;
+        if (index > lastIndex) {
+            current().push({ type: 'text', text: template.slice(lastIndex, index) });
+        }
+        lastIndex = index + match[0].length;
+
+        const [raw, blockOpen, blockColumn, keyword, placeholder] = match;
+        if (blockOpen) {
+            const node: ConditionalNode = {
+                type: 'conditional',
+                column: blockColumn.trim(),
+                negate: blockOpen === '#unless',
+                then: [],
+                otherwise: []
+            };
+            current().push(node);
+            stack.push({ node, inElse: false, closer: blockOpen === '#if' ? '/if' : '/unless' });
+        } else if (keyword === '#each') {
+            const node: EachNode = { type: 'each', body: [] };
+            current().push(node);
+            stack.push({ node, inElse: false, closer: '/each' });
+        } else if (keyword === 'else') {
+            const top = stack[stack.length - 1];
+            if (!top || top.node.type === 'each' || top.inElse) {
+                throw new Error('Template error: {else} without a matching {#if}');
+            }
+            top.inElse = true;
+        } else if (keyword) {
+            const top = stack.pop();
+            if (!top || top.closer !== keyword) {
+                throw new Error(`Template error: {${keyword}} without a matching opening block`);
+            }
+        } else {
+            current().push(parsePlaceholder(raw, placeholder));
+        }
+    }
+
+    if (lastIndex < template.length) {
+        current().push({ type: 'text', text: template.slice(lastIndex) });
+    }
+
+    if (stack.length > 0) {
+        const top = stack[stack.length - 1];
+        const opener = top.node.type === 'each' ? '{#each}' : `{${top.closer === '/if' ? '#if' : '#unless'} ${top.node.column}}`;
+        throw new Error(`Template error: ${opener} is never closed with {${top.closer}}`);
+    }
+
+    return root;
+}
+
+function renderNodes(nodes: TemplateNode[], row: ExcelRow, group: ExcelRow[], unresolved: Set<string>): string {
+    let output = '';
+
+    for (const node of nodes) {
+        if (node.type === 'text') {
+            output += node.text;
+        } else if (node.type === 'conditional') {
+            const matches = isTruthy(row[node.column]) !== node.negate;
+            output += renderNodes(matches ? node.then : node.otherwise, row, group, unresolved);
+        } else if (node.type === 'each') {
+            for (const groupRow of group) {
+                output += renderNodes(node.body, groupRow, [groupRow], unresolved);
+            }
+        } else {
+            let value: ExcelRow[string] = row[node.column];
+            for (const pipe of node.pipes) {
+                if (!pipe.name) {
+                    if (isEmpty(value)) value = pipe.arg;
+                } else if (!isEmpty(value)) {
+                    try {
+                        value = FORMATTERS[pipe.name](value, pipe.arg);
+                    } catch {
+                        // A value the formatter can't handle leaves the placeholder unresolved
+                        // instead of stopping the whole campaign
+                        value = undefined;
+                        break;
+                    }
+                }
+            }
+
+            if (isEmpty(value)) {
+                unresolved.add(node.column);
+            }
+            output += stringify(value);
+        }
+    }
+
+    return output;
+}
+
+/**
+ * Render a template for one row. `group` holds all rows merged into this message, in order,
+ * for {#each} blocks; without it the block renders once for the row itself.
+ */
+export function renderTemplate(template: string, row: ExcelRow, group: ExcelRow[] = [row]): RenderResult {
+    const unresolved = new Set<string>();
+    const text = renderNodes(parseTemplate(template), row, group, unresolved);
+    return { text, unresolved: [...unresolved] };
+}
+
+/**
+ * Column names referenced anywhere in the template, including inside conditionals
+ */
+export function getTemplateColumns(template: string): string[] {
+    const columns = new Set<string>();
+    const visit = (nodes: TemplateNode[]) => {
+        for (const node of nodes) {
+            if (node.type === 'placeholder') {
+                columns.add(node.column);
+            } else if (node.type === 'conditional') {
+                columns.add(node.column);
+                visit(node.then);
+                visit(node.otherwise);
+            } else if (node.type === 'each') {
+                visit(node.body);
+            }
+        }
+    };
+    visit(parseTemplate(template));
+    return [...columns];
+}
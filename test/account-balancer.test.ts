@@ -0,0 +1,85 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import AccountBalancer from '../account-balancer.js';
+import { ExcelRow } from '../src/types.js';
+
+const rows = (...phones: string[]): ExcelRow[] => phones.map((Phone, __rowIndex) => ({ __rowIndex, Phone }));
+
+const sharesOf = (shares: Map<string, ExcelRow[]>) =>
+    Object.fromEntries([...shares].map(([accountId, share]) => [accountId, share.map(row => row.__rowIndex)]));
+
+describe('AccountBalancer', () => {
+    let dir: string;
+    let balancer: AccountBalancer;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'account-balancer-'));
+        balancer = new AccountBalancer(path.join(dir, 'assignments.json'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('spreads numbers evenly with round-robin', () => {
+        const shares = balancer.assign(
+            rows('+919876543210', '+919876543211', '+919876543212', '+919876543213'),
+            'Phone',
+            [{ accountId: 'a', capacity: null }, { accountId: 'b', capacity: 1 }],
+            'round-robin'
+        );
+
+        expect(sharesOf(shares)).toEqual({ a: [0, 2], b: [1, 3] });
+    });
+
+    it('follows the remaining daily capacity when weighted', () => {
+        const shares = balancer.assign(
+            rows('+919876543210', '+919876543211', '+919876543212', '+919876543213'),
+            'Phone',
+            [{ accountId: 'a', capacity: 3 }, { accountId: 'b', capacity: 1 }],
+            'weighted'
+        );
+
+        expect(sharesOf(shares)).toEqual({ a: [0, 2, 3], b: [1] });
+    });
+
+    it('sends every row for a number from the same account', () => {
+        const shares = balancer.assign(
+            rows('+919876543210', '+919876543211', '09876543210'),
+            'Phone',
+            [{ accountId: 'a', capacity: null }, { accountId: 'b', capacity: null }],
+            'round-robin',
+            '91'
+        );
+
+        expect(sharesOf(shares)).toEqual({ a: [0, 2], b: [1] });
+    });
+
+    it('keeps a number on the account that messaged it, across restarts', () => {
+        balancer.remember('+919876543210', 'b');
+        const reloaded = new AccountBalancer(path.join(dir, 'assignments.json'));
+
+        const shares = reloaded.assign(
+            rows('+919876543210'),
+            'Phone',
+            [{ accountId: 'a', capacity: null }, { accountId: 'b', capacity: null }],
+            'round-robin'
+        );
+
+        expect(sharesOf(shares)).toEqual({ b: [0] });
+    });
+
+    it('ignores a remembered account that is not in the pool', () => {
+        balancer.remember('+919876543210', 'c');
+
+        const shares = balancer.assign(rows('+919876543210'), 'Phone', [{ accountId: 'a', capacity: null }], 'round-robin');
+
+        expect(sharesOf(shares)).toEqual({ a: [0] });
+    });
+
+    it('needs an account to send from', () => {
+        expect(() => balancer.assign(rows('+919876543210'), 'Phone', [], 'round-robin')).toThrow('No account to send from');
+    });
+});
@@ -0,0 +1,102 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import CampaignJournal from '../campaign-journal.js';
+import { JournalEntry, SendMessagesOptions } from '../src/types.js';
+
+const OPTIONS: SendMessagesOptions = {
+    data: [
+        { Name: 'Asha', Phone: '+919876543210', Due: new Date('2024-03-05T00:00:00.000Z') },
+        { Name: 'Ben', Phone: '+447700900123' },
+        { Name: 'Carla', Phone: '+14155550100' }
+    ],
+    phoneColumn: 'Phone',
+    template: 'Hi {Name}',
+    delay: 0
+};
+
+const entry = (rowIndex: number, status: JournalEntry['status']): JournalEntry => ({
+    rowIndex,
+    phone: String(OPTIONS.data[rowIndex].Phone),
+    status,
+    timestamp: new Date().toISOString()
+});
+
+describe('CampaignJournal', () => {
+    let dir: string;
+    let journal: CampaignJournal;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'campaign-journal-'));
+        journal = new CampaignJournal(dir);
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('pins row indexes and restores date cells when loading', () => {
+        const record = journal.create(OPTIONS);
+        const loaded = journal.load(record.id);
+
+        expect(loaded.status).toBe('running');
+        expect(loaded.options.data.map(row => row.__rowIndex)).toEqual([0, 1, 2]);
+        expect(loaded.options.data[0].Due).toEqual(new Date('2024-03-05T00:00:00.000Z'));
+    });
+
+    it('leaves sent and failed rows out of the pending rows, but not cancelled ones', () => {
+        const record = journal.create(OPTIONS);
+        journal.append(record.id, entry(0, 'success'));
+        journal.append(record.id, entry(1, 'failed'));
+        journal.append(record.id, entry(2, 'cancelled'));
+
+        expect(journal.getPendingRows(record.id).map(row => row.Name)).toEqual(['Carla']);
+        expect(journal.summarize(record.id)).toMatchObject({ total: 3, processed: 2, pending: 1 });
+    });
+
+    it('goes by the latest outcome of a row that was sent again', () => {
+        const record = journal.create(OPTIONS);
+        journal.append(record.id, entry(2, 'cancelled'));
+        journal.append(record.id, entry(2, 'success'));
+
+        expect(journal.getPendingRows(record.id).map(row => row.Name)).toEqual(['Asha', 'Ben']);
+    });
+
+    it('treats a row whose journal line was cut off by a crash as unsent', () => {
+        const record = journal.create(OPTIONS);
+        journal.append(record.id, entry(0, 'success'));
+        fs.appendFileSync(path.join(dir, record.id, 'journal.jsonl'), '{"rowIndex":1,"sta');
+
+        expect(journal.readEntries(record.id)).toHaveLength(1);
+        expect(journal.getPendingRows(record.id).map(row => row.Name)).toEqual(['Ben', 'Carla']);
+    });
+
+    it('marks campaigns left running as interrupted', () => {
+        const running = journal.create(OPTIONS);
+        const done = journal.create(OPTIONS);
+        journal.setStatus(done.id, 'completed');
+
+        journal.recoverInterrupted();
+
+        expect(journal.listInterrupted().map(summary => summary.id)).toEqual([running.id]);
+        expect(journal.load(done.id).status).toBe('completed');
+    });
+
+    it('keeps the latest delivery status per row', () => {
+        const record = journal.create(OPTIONS);
+        const receipt = { campaignId: record.id, rowIndex: 0, messageId: 'm1', timestamp: new Date().toISOString() };
+        journal.appendReceipt({ ...receipt, status: 'delivered' });
+        journal.appendReceipt({ ...receipt, status: 'read' });
+
+        expect(journal.readDeliveryStatuses(record.id)).toEqual(new Map([[0, 'read']]));
+    });
+
+    it('forgets a removed campaign', () => {
+        const record = journal.create(OPTIONS);
+        journal.remove(record.id);
+
+        expect(() => journal.load(record.id)).toThrow(`Campaign not found: ${record.id}`);
+        expect(journal.list()).toEqual([]);
+    });
+});
@@ -0,0 +1,127 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import MessageQueue, { QueueRunner } from '../message-queue.js';
+import { ExcelRow, SendMessageDetail } from '../src/types.js';
+
+const PAST = '2024-01-01T09:00:00.000Z';
+const FUTURE = '2999-01-01T09:00:00.000Z';
+
+const ROWS: ExcelRow[] = [
+    { __rowIndex: 0, Phone: '+919876543210', SendAt: PAST },
+    { __rowIndex: 1, Phone: '+447700900123', SendAt: PAST },
+    { __rowIndex: 2, Phone: '+14155550100', SendAt: FUTURE }
+];
+
+const detail = (rowIndex: number, status: SendMessageDetail['status'], error?: string): SendMessageDetail => ({
+    index: rowIndex,
+    rowIndex,
+    phone: String(ROWS[rowIndex].Phone),
+    status,
+    error,
+    timestamp: new Date().toISOString()
+});
+
+// The queue settles a batch once the runner's send resolves
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('MessageQueue', () => {
+    let dir: string;
+    let filePath: string;
+    let runner: QueueRunner & { send: ReturnType<typeof vi.fn>; finish: ReturnType<typeof vi.fn> };
+    let queue: MessageQueue;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'message-queue-'));
+        filePath = path.join(dir, 'message-queue.json');
+        runner = {
+            canStart: () => true,
+            send: vi.fn(async (_: string, rowIndexes: number[]) => rowIndexes.map(rowIndex => detail(rowIndex, 'success'))),
+            finish: vi.fn()
+        };
+        queue = new MessageQueue(filePath, runner);
+    });
+
+    afterEach(() => {
+        queue.stop();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const statuses = () => Object.fromEntries(queue.list().map(item => [item.rowIndex, item.status]));
+
+    it('queues rows for the time in their column and rejects rows without one', () => {
+        const result = queue.enqueue('c1', [...ROWS, { __rowIndex: 3, Phone: '+919876543211', SendAt: 'next week' }], 'Phone', 'SendAt');
+
+        expect(result).toEqual({ queued: 3, rejected: [{ rowIndex: 3, reason: 'No valid date/time in column \'SendAt\'' }] });
+        expect(queue.list().map(item => item.sendAt)).toEqual([PAST, PAST, FUTURE]);
+    });
+
+    it('sends the due messages of a campaign together and keeps later ones queued', async () => {
+        queue.enqueue('c1', ROWS, 'Phone', 'SendAt');
+        runner.send.mockResolvedValueOnce([detail(0, 'success'), detail(1, 'failed', 'invalid wid')]);
+
+        queue.start();
+        await flush();
+
+        expect(runner.send).toHaveBeenCalledWith('c1', [0, 1]);
+        expect(statuses()).toEqual({ 0: 'sent', 1: 'failed', 2: 'queued' });
+        expect(queue.list().find(item => item.rowIndex === 1)?.error).toBe('invalid wid');
+        expect(runner.finish).not.toHaveBeenCalled();
+    });
+
+    it('queues rows that were never reached again', async () => {
+        queue.enqueue('c1', ROWS.slice(0, 2), 'Phone', 'SendAt');
+        runner.send.mockResolvedValueOnce([detail(0, 'success')]);
+
+        queue.start();
+        await flush();
+
+        expect(statuses()).toEqual({ 0: 'sent', 1: 'queued' });
+    });
+
+    it('fails the batch when the campaign cannot be sent at all', async () => {
+        queue.enqueue('c1', ROWS.slice(0, 2), 'Phone', 'SendAt');
+        runner.send.mockRejectedValueOnce(new Error('Campaign not found: c1'));
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        queue.start();
+        await flush();
+
+        expect(statuses()).toEqual({ 0: 'failed', 1: 'failed' });
+        expect(queue.list()[0].error).toBe('Campaign not found: c1');
+        expect(runner.finish).toHaveBeenCalledWith('c1');
+    });
+
+    it('waits while the campaign cannot start', async () => {
+        queue.enqueue('c1', ROWS, 'Phone', 'SendAt');
+        runner.canStart = () => false;
+
+        queue.start();
+        await flush();
+
+        expect(runner.send).not.toHaveBeenCalled();
+        expect(statuses()).toEqual({ 0: 'queued', 1: 'queued', 2: 'queued' });
+    });
+
+    it('cancels the queued messages of a campaign and finishes it', () => {
+        queue.enqueue('c1', ROWS, 'Phone', 'SendAt');
+        queue.enqueue('c2', ROWS.slice(0, 1), 'Phone', 'SendAt');
+
+        queue.cancelCampaign('c1');
+
+        expect(queue.list().filter(item => item.campaignId === 'c1').every(item => item.status === 'cancelled')).toBe(true);
+        expect(queue.list().find(item => item.campaignId === 'c2')?.status).toBe('queued');
+        expect(runner.finish).toHaveBeenCalledWith('c1');
+    });
+
+    it('fails messages that were being sent when the app closed, instead of sending them twice', () => {
+        queue.enqueue('c1', ROWS.slice(0, 1), 'Phone', 'SendAt');
+        const items = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        fs.writeFileSync(filePath, JSON.stringify([{ ...items[0], status: 'sending' }]));
+
+        const reloaded = new MessageQueue(filePath, runner);
+
+        expect(reloaded.list()[0].status).toBe('failed');
+    });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { normalizePhoneNumber, toChatId } from '../phone-number.js';
+
+describe('normalizePhoneNumber', () => {
+    it.each([
+        ['+91 98765 43210', undefined, '+919876543210'],
+        ['0091 98765 43210', undefined, '+919876543210'],
+        ['919876543210', undefined, '+919876543210'],
+        [919876543210, undefined, '+919876543210'],
+        ['(415) 555-0100', '1', '+14155550100'],
+        ['+44 7700 900123', '91', '+447700900123']
+    ])('normalizes %s', (phone, defaultCountryCode, e164) => {
+        expect(normalizePhoneNumber(phone, defaultCountryCode)).toMatchObject({ valid: true, e164 });
+    });
+
+    it('reads national numbers of the default country with or without the trunk prefix', () => {
+        expect(normalizePhoneNumber('09876543210', '91')).toMatchObject({ valid: true, countryCode: '91', e164: '+919876543210' });
+        expect(normalizePhoneNumber('9876543210', '+91')).toMatchObject({ valid: true, e164: '+919876543210' });
+        expect(normalizePhoneNumber('07700 900123', '44')).toMatchObject({ valid: true, e164: '+447700900123' });
+        expect(normalizePhoneNumber('89161234567', '7')).toMatchObject({ valid: true, e164: '+79161234567' });
+    });
+
+    it('accepts a number that already has the default country code', () => {
+        expect(normalizePhoneNumber('919876543210', '91')).toMatchObject({ valid: true, e164: '+919876543210' });
+    });
+
+    it('reads a number with another known country code but no + as international', () => {
+        expect(normalizePhoneNumber('447700900123', '91')).toMatchObject({ valid: true, countryCode: '44', e164: '+447700900123' });
+    });
+
+    it('checks the national length for known countries', () => {
+        expect(normalizePhoneNumber('+91 98765 4321')).toMatchObject({
+            valid: false,
+            reason: '+91 numbers must have 10 digits after the country code, got 9'
+        });
+        expect(normalizePhoneNumber('12345', '91')).toMatchObject({
+            valid: false,
+            reason: '5 digits is not a valid length for a +91 number'
+        });
+    });
+
+    it('applies country patterns', () => {
+        expect(normalizePhoneNumber('+1 115 555 0100')).toMatchObject({ valid: false, reason: 'Not a valid +1 number' });
+        expect(normalizePhoneNumber('+91 0876543210')).toMatchObject({ valid: false, reason: 'Not a valid +91 number' });
+    });
+
+    it('only checks the length of numbers with an unknown country code', () => {
+        expect(normalizePhoneNumber('+375 29 123 4567')).toMatchObject({ valid: true, countryCode: '', e164: '+375291234567' });
+        expect(normalizePhoneNumber('+375 291')).toMatchObject({ valid: false, reason: 'International numbers must have 8-15 digits, got 6' });
+    });
+
+    it('prepends a default country code that has no rule', () => {
+        expect(normalizePhoneNumber('0291234567', '375')).toMatchObject({ valid: true, e164: '+375291234567' });
+        expect(normalizePhoneNumber('375291234567', '375')).toMatchObject({ valid: true, e164: '+375291234567' });
+    });
+
+    it('rejects local numbers without a default country code', () => {
+        expect(normalizePhoneNumber('09876543210')).toMatchObject({
+            valid: false,
+            reason: 'Local number with a trunk prefix; set a default country code'
+        });
+    });
+
+    it('rejects input without digits', () => {
+        expect(normalizePhoneNumber(' n/a ')).toEqual({ valid: false, input: 'n/a', reason: 'No digits in phone number' });
+    });
+});
+
+describe('toChatId', () => {
+    it('turns an E.164 number into a WhatsApp chat id', () => {
+        expect(toChatId('+919876543210')).toBe('919876543210@c.us');
+    });
+});
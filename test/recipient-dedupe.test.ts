@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { describeDedupe, groupRecipients } from '../recipient-dedupe.js';
+import { ExcelRow } from '../src/types.js';
+
+const ROWS: ExcelRow[] = [
+    { Phone: '+91 98765 43210', Item: 'Tea' },
+    { Phone: '+44 7700 900123', Item: 'Milk' },
+    { Phone: '09876543210', Item: 'Rice' },
+    { Phone: 'unknown', Item: 'Salt' },
+    { Phone: 'unknown', Item: 'Oil' }
+];
+
+const rowIndexes = (rows: ExcelRow[]) => rows.map(row => row.__rowIndex);
+
+describe('groupRecipients', () => {
+    it('keeps every row as its own group without a strategy', () => {
+        const groups = groupRecipients(ROWS, 'Phone', 'none', '91');
+
+        expect(groups.map(group => rowIndexes(group.rows))).toEqual([[0], [1], [2], [3], [4]]);
+    });
+
+    it('sends the first row for a number and drops the later ones', () => {
+        const groups = groupRecipients(ROWS, 'Phone', 'first', '91');
+
+        expect(groups.map(group => group.row.__rowIndex)).toEqual([0, 1, 3, 4]);
+        expect(rowIndexes(groups[0].dropped)).toEqual([2]);
+    });
+
+    it('sends the last row for a number, in the sheet order of that row', () => {
+        const groups = groupRecipients(ROWS, 'Phone', 'last', '91');
+
+        expect(groups.map(group => group.row.__rowIndex)).toEqual([1, 2, 3, 4]);
+        expect(rowIndexes(groups[1].dropped)).toEqual([0]);
+    });
+
+    it('merges the rows for a number into one message', () => {
+        const groups = groupRecipients(ROWS, 'Phone', 'merge', '91');
+
+        expect(groups[0]).toMatchObject({ row: { Item: 'Tea' }, dropped: [] });
+        expect(rowIndexes(groups[0].rows)).toEqual([0, 2]);
+    });
+
+    it('never groups rows without a valid number', () => {
+        const groups = groupRecipients(ROWS, 'Phone', 'merge', '91');
+
+        expect(groups.filter(group => group.row.Phone === 'unknown')).toHaveLength(2);
+    });
+});
+
+describe('describeDedupe', () => {
+    it('describes each number that is in more than one row', () => {
+        const groups = groupRecipients(ROWS, 'Phone', 'last', '91');
+
+        expect(describeDedupe(groups, 'Phone', 'last', '91')).toEqual([
+            { e164: '+919876543210', strategy: 'last', keptRowIndex: 2, rowIndexes: [0, 2] }
+        ]);
+    });
+
+    it('describes nothing without a strategy', () => {
+        expect(describeDedupe(groupRecipients(ROWS, 'Phone', 'none', '91'), 'Phone', 'none', '91')).toEqual([]);
+    });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { estimateFinish, nextDelay, nextSendSlot, resolvePacing } from '../send-pacing.js';
+import { PacingPolicy } from '../src/types.js';
+
+const HOUR = 60 * 60 * 1000;
+
+const policy = (overrides: Partial<PacingPolicy> = {}): PacingPolicy => ({
+    minDelay: 5,
+    maxDelay: 5,
+    breakEvery: 0,
+    breakMinMinutes: 0,
+    breakMaxMinutes: 0,
+    maxPerHour: 0,
+    maxPerDay: 0,
+    ...overrides
+});
+
+describe('resolvePacing', () => {
+    it('keeps the fixed delay of campaigns without a policy', () => {
+        expect(resolvePacing({ delay: 8 })).toEqual(policy({ minDelay: 8, maxDelay: 8 }));
+    });
+
+    it('clamps negative and inconsistent values', () => {
+        const resolved = resolvePacing({
+            delay: 0,
+            pacing: policy({ minDelay: 10, maxDelay: 4, breakEvery: 2.7, breakMinMinutes: -1, maxPerHour: NaN })
+        });
+
+        expect(resolved).toMatchObject({ minDelay: 10, maxDelay: 10, breakEvery: 2, breakMinMinutes: 0, maxPerHour: 0 });
+    });
+});
+
+describe('nextDelay', () => {
+    it('waits within the delay range', () => {
+        const ms = nextDelay(policy({ minDelay: 2, maxDelay: 4 }), 1);
+
+        expect(ms).toBeGreaterThanOrEqual(2000);
+        expect(ms).toBeLessThanOrEqual(4000);
+    });
+
+    it('adds a break after every N messages', () => {
+        const breaks = policy({ minDelay: 1, maxDelay: 1, breakEvery: 3, breakMinMinutes: 2, breakMaxMinutes: 2 });
+
+        expect(nextDelay(breaks, 2)).toBe(1000);
+        expect(nextDelay(breaks, 3)).toBe(1000 + 2 * 60 * 1000);
+        expect(nextDelay(breaks, 0)).toBe(1000);
+    });
+
+    it('takes the break when several attempts passed a multiple at once', () => {
+        const breaks = policy({ minDelay: 1, maxDelay: 1, breakEvery: 3, breakMinMinutes: 2, breakMaxMinutes: 2 });
+
+        expect(nextDelay(breaks, 4, 2)).toBe(1000 + 2 * 60 * 1000);
+        expect(nextDelay(breaks, 5, 4)).toBe(1000);
+    });
+});
+
+describe('nextSendSlot', () => {
+    const now = 10 * HOUR;
+
+    it('is now while the limits leave room', () => {
+        expect(nextSendSlot([now - 1000], policy({ maxPerHour: 2, maxPerDay: 5 }), now)).toBe(now);
+    });
+
+    it('waits until the oldest send within the hour drops out', () => {
+        const sends = [now - 50 * 60 * 1000, now - 10 * 60 * 1000];
+
+        expect(nextSendSlot(sends, policy({ maxPerHour: 2 }), now)).toBe(sends[0] + HOUR);
+    });
+
+    it('waits for the daily limit', () => {
+        const sends = [now - 5 * HOUR, now - 4 * HOUR, now - 1000];
+
+        expect(nextSendSlot(sends, policy({ maxPerDay: 3 }), now)).toBe(sends[0] + 24 * HOUR);
+    });
+});
+
+describe('estimateFinish', () => {
+    it('adds average delays and breaks between messages', () => {
+        const estimate = estimateFinish(policy({ minDelay: 2, maxDelay: 4, breakEvery: 2, breakMinMinutes: 1, breakMaxMinutes: 3 }), 3, [], 0);
+
+        expect(estimate).toBe(2 * 3000 + 2 * 60 * 1000);
+    });
+
+    it('accounts for earlier sends that used up the hourly limit', () => {
+        const now = 10 * HOUR;
+
+        expect(estimateFinish(policy({ minDelay: 0, maxDelay: 0, maxPerHour: 1 }), 1, [now - 30 * 60 * 1000], now)).toBe(now + 30 * 60 * 1000);
+    });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { isRetryableError, resolveRetryPolicy, retryDelay } from '../send-retry.js';
+
+describe('resolveRetryPolicy', () => {
+    it('makes a single attempt for campaigns without a policy', () => {
+        expect(resolveRetryPolicy({})).toEqual({ maxAttempts: 1, baseDelay: 0, maxDelay: 0 });
+    });
+
+    it('keeps the maximum delay at or above the base delay', () => {
+        expect(resolveRetryPolicy({ retry: { maxAttempts: 3.6, baseDelay: 10, maxDelay: 2 } })).toEqual({ maxAttempts: 3, baseDelay: 10, maxDelay: 10 });
+    });
+});
+
+describe('isRetryableError', () => {
+    it.each([
+        'Navigation timeout of 30000 ms exceeded',
+        'connect ETIMEDOUT 1.2.3.4:443',
+        'Protocol error (Runtime.callFunctionOn): Target closed.',
+        'Execution context was destroyed, most likely because of a navigation',
+        'Too Many Requests'
+    ])('retries "%s"', error => {
+        expect(isRetryableError(error)).toBe(true);
+    });
+
+    it.each([
+        'invalid wid',
+        'Phone number is not registered on WhatsApp',
+        'Attachment not found: /tmp/a.pdf (ENOENT)',
+        // Permanent errors win over retryable words in the same message
+        'Evaluation failed: invalid wid',
+        'Something unexpected happened',
+        undefined
+    ])('does not retry "%s"', error => {
+        expect(isRetryableError(error)).toBe(false);
+    });
+});
+
+describe('retryDelay', () => {
+    it('doubles from the base delay up to the maximum', () => {
+        const policy = { maxAttempts: 6, baseDelay: 5, maxDelay: 30 };
+
+        expect([1, 2, 3, 4, 5].map(attempt => retryDelay(policy, attempt))).toEqual([5000, 10000, 20000, 30000, 30000]);
+    });
+});
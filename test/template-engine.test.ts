@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { getTemplateColumns, parseTemplate, renderTemplate } from '../template-engine.js';
+
+describe('renderTemplate', () => {
+    it('fills placeholders from the row and falls back for empty cells', () => {
+        const result = renderTemplate('Hi {Name|there}, your order {Order} shipped', { Name: '', Order: 'A-17' });
+
+        expect(result.text).toBe('Hi there, your order A-17 shipped');
+        expect(result.unresolved).toEqual([]);
+    });
+
+    it('reports placeholders without a value or fallback as unresolved', () => {
+        const result = renderTemplate('Hi {Name}, {Missing}', { Name: '  ' });
+
+        expect(result.unresolved).toEqual(['Name', 'Missing']);
+    });
+
+    it('applies pipes left to right', () => {
+        expect(renderTemplate('{Name|trim|upper}', { Name: '  asha ' }).text).toBe('ASHA');
+        expect(renderTemplate('{Name|capitalize}', { Name: 'asha rao' }).text).toBe('Asha Rao');
+        expect(renderTemplate('{Name|lower|Customer}', { Name: '' }).text).toBe('Customer');
+    });
+
+    it('formats numbers, currencies and dates', () => {
+        const row = { Amount: '1,234.5', Due: new Date(2024, 2, 5) };
+
+        expect(renderTemplate('{Amount|number:2}', row).text)
+            .toBe(new Intl.NumberFormat(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(1234.5));
+        expect(renderTemplate('{Amount|currency:inr}', row).text)
+            .toBe(new Intl.NumberFormat(undefined, { style: 'currency', currency: 'INR' }).format(1234.5));
+        expect(renderTemplate('{Due|date:dd MMM yyyy}', row).text).toBe('05 Mar 2024');
+    });
+
+    it('leaves values a formatter cannot read as they are', () => {
+        expect(renderTemplate('{Amount|currency:USD}', { Amount: 'n/a' }).text).toBe('n/a');
+        expect(renderTemplate('{Due|date:yyyy}', { Due: 'soon' }).text).toBe('soon');
+    });
+
+    it('renders conditionals on whether a cell has a value', () => {
+        const template = '{#if Discount}Save {Discount}%{else}Full price{/if}{#unless Paid}, payment due{/unless}';
+
+        expect(renderTemplate(template, { Discount: 10, Paid: 'yes' }).text).toBe('Save 10%');
+        expect(renderTemplate(template, { Discount: 0, Paid: '' }).text).toBe('Full price, payment due');
+        expect(renderTemplate(template, { Discount: ' ', Paid: 'yes' }).text).toBe('Full price');
+    });
+
+    it('nests conditionals', () => {
+        const template = '{#if A}a{#if B}b{else}!b{/if}{/if}';
+
+        expect(renderTemplate(template, { A: 1, B: 1 }).text).toBe('ab');
+        expect(renderTemplate(template, { A: 1 }).text).toBe('a!b');
+        expect(renderTemplate(template, { B: 1 }).text).toBe('');
+    });
+
+    it('repeats {#each} for every merged row', () => {
+        const rows = [{ Name: 'Asha', Item: 'Tea' }, { Name: 'Asha', Item: 'Rice' }];
+
+        expect(renderTemplate('Hi {Name}:{#each} {Item};{/each}', rows[0], rows).text).toBe('Hi Asha: Tea; Rice;');
+        expect(renderTemplate('{#each}{Item}{/each}', rows[0]).text).toBe('Tea');
+    });
+
+    it('keeps text that is not a tag', () => {
+        expect(renderTemplate('50% off {} today', {}).text).toBe('50% off {} today');
+    });
+});
+
+describe('parseTemplate', () => {
+    it.each([
+        ['{#if Name}Hi', '{#if Name} is never closed with {/if}'],
+        ['{#unless Paid}due{/if}', '{/if} without a matching opening block'],
+        ['Hi{/if}', '{/if} without a matching opening block'],
+        ['{else}', '{else} without a matching {#if}'],
+        ['{#if A}a{else}b{else}c{/if}', '{else} without a matching {#if}'],
+        ['{#each}{else}{/each}', '{else} without a matching {#if}'],
+        ['{#each}{Item}', '{#each} is never closed with {/each}']
+    ])('rejects unbalanced blocks in %s', (template, message) => {
+        expect(() => parseTemplate(template)).toThrow(message);
+    });
+
+    it.each([
+        ['{Amount|number:two}', 'needs a number of decimals'],
+        ['{Amount|number:-1}', 'needs a number of decimals'],
+        ['{Amount|currency:DOLLARS}', 'invalid currency argument "DOLLARS"'],
+        ['{Due|date:YYYY}', 'invalid date argument "YYYY"']
+    ])('rejects the formatter argument in %s', (template, message) => {
+        expect(() => parseTemplate(template)).toThrow(message);
+    });
+
+    it('accepts valid formatter arguments and treats unknown pipes as fallbacks', () => {
+        expect(() => parseTemplate('{A|number:0} {B|currency:eur} {C|date:yyyy-MM-dd} {D|Dear customer}')).not.toThrow();
+    });
+});
+
+describe('getTemplateColumns', () => {
+    it('lists every column once, including those in blocks', () => {
+        expect(getTemplateColumns('{Name} {#if Due}{Amount}{else}{Name}{/if}{#each}{Item}{/each}'))
+            .toEqual(['Name', 'Due', 'Amount', 'Item']);
+    });
+});
@@ -0,0 +1,209 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import XLSX from 'xlsx';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import WhatsAppHandler, { WhatsAppHandlerOptions } from '../whatsapp-handler.js';
+import FakeTransport from '../fake-transport.js';
+import { CampaignState, ConnectionPhase, ExcelRow, MessageAckEvent, SendMessagesOptions } from '../src/types.js';
+
+const silent = { log: () => undefined, error: () => undefined };
+
+const ROWS: ExcelRow[] = [
+    { __rowIndex: 0, Name: 'Asha', Phone: '+919876543210' },
+    { __rowIndex: 1, Name: 'Ben', Phone: '+447700900123' },
+    { __rowIndex: 2, Name: 'Carla', Phone: '+14155550100' }
+];
+
+function campaign(overrides: Partial<SendMessagesOptions> = {}): SendMessagesOptions {
+    return { data: ROWS, phoneColumn: 'Phone', template: 'Hi {Name}', delay: 0, ...overrides };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('WhatsAppHandler on FakeTransport', () => {
+    let transport: FakeTransport;
+    let handler: WhatsAppHandler;
+
+    const connect = async (options: Partial<WhatsAppHandlerOptions> = {}) => {
+        handler = new WhatsAppHandler({ transport, logger: silent, ...options });
+        await handler.initialize();
+    };
+
+    beforeEach(() => {
+        transport = new FakeTransport();
+    });
+
+    afterEach(async () => {
+        await handler?.destroy();
+    });
+
+    it('sends the rendered template to every row', async () => {
+        await connect();
+        const results = await handler.sendMessages(campaign());
+
+        expect(results.success).toBe(3);
+        expect(transport.sentTo('919876543210@c.us').map(message => message.text)).toEqual(['Hi Asha']);
+        expect(transport.sentTo('447700900123@c.us').map(message => message.text)).toEqual(['Hi Ben']);
+        expect(results.details.every(detail => detail.messageId)).toBe(true);
+        expect(handler.getCampaignState()).toBe('idle');
+    });
+
+    it('holds the campaign while paused and carries on after resume', async () => {
+        await connect();
+        const states: CampaignState[] = [];
+        handler.on('campaign_state', (state: CampaignState) => states.push(state));
+
+        const running = handler.sendMessages(campaign(), {
+            onResult: detail => {
+                if (detail.rowIndex === 0) handler.pauseCampaign();
+            }
+        });
+
+        await sleep(700);
+        expect(transport.sent).toHaveLength(1);
+        expect(handler.getCampaignState()).toBe('paused');
+
+        handler.resumeCampaign();
+        const results = await running;
+        expect(results.success).toBe(3);
+        expect(states).toEqual(['running', 'paused', 'running', 'idle']);
+    });
+
+    it('reports the remaining rows as cancelled', async () => {
+        await connect();
+        const results = await handler.sendMessages(campaign(), {
+            onResult: detail => {
+                if (detail.rowIndex === 0) handler.cancelCampaign();
+            }
+        });
+
+        expect(results.success).toBe(1);
+        expect(results.cancelled).toBe(2);
+        expect(transport.sent).toHaveLength(1);
+    });
+
+    it('retries a send that fails with a transient error', async () => {
+        await connect();
+        transport.failNext('ETIMEDOUT');
+
+        const results = await handler.sendMessages(campaign({ retry: { maxAttempts: 2, baseDelay: 0.01, maxDelay: 0.01 } }));
+
+        expect(results.success).toBe(3);
+        expect(results.details.find(detail => detail.rowIndex === 0)?.attempts).toBe(2);
+    });
+
+    it('does not retry a permanent error', async () => {
+        await connect();
+        transport.failNext('invalid wid');
+
+        const results = await handler.sendMessages(campaign({ retry: { maxAttempts: 3, baseDelay: 0.01, maxDelay: 0.01 } }));
+
+        expect(results.failed).toBe(1);
+        expect(results.details.find(detail => detail.rowIndex === 0)).toMatchObject({ status: 'failed', error: 'invalid wid' });
+    });
+
+    it('skips numbers that are not on WhatsApp', async () => {
+        await connect();
+        transport.unregister('447700900123');
+
+        const results = await handler.sendMessages(campaign({ skipUnregistered: true }));
+
+        expect(results.unregistered).toBe(1);
+        expect(transport.sentTo('447700900123@c.us')).toHaveLength(0);
+        expect(results.details.find(detail => detail.rowIndex === 1)?.status).toBe('unregistered');
+    });
+
+    it('reconnects after a disconnect and resends from the row that was cut off', async () => {
+        await connect({ reconnect: { maxAttempts: 3, baseDelay: 0.01, maxDelay: 0.01 } });
+        const states: CampaignState[] = [];
+        handler.on('campaign_state', (state: CampaignState) => states.push(state));
+
+        const results = await handler.sendMessages(campaign(), {
+            onResult: detail => {
+                if (detail.rowIndex === 0) transport.simulateDisconnect();
+            }
+        });
+
+        expect(results.success).toBe(3);
+        expect(results.failed).toBe(0);
+        expect(transport.sent).toHaveLength(3);
+        expect(states).toEqual(['running', 'paused', 'running', 'idle']);
+        expect(handler.isConnected()).toBe(true);
+    });
+
+    it('stops the campaign when the session was logged out', async () => {
+        await connect({ reconnect: { maxAttempts: 3, baseDelay: 0.01, maxDelay: 0.01 } });
+
+        const running = handler.sendMessages(campaign(), {
+            onResult: detail => {
+                if (detail.rowIndex === 0) transport.simulateDisconnect('LOGOUT');
+            }
+        });
+
+        await expect(running).rejects.toThrow('WhatsApp disconnected during the campaign');
+        expect(handler.getConnectionState().phase).toBe('disconnected');
+    });
+
+    it('reports delivery receipts for sent messages', async () => {
+        await connect();
+        const acks: MessageAckEvent[] = [];
+        handler.on('message_ack', (ack: MessageAckEvent) => acks.push(ack));
+
+        const results = await handler.sendMessages(campaign({ data: ROWS.slice(0, 1) }));
+        const messageId = results.details[0].messageId as string;
+        transport.simulateAck(messageId, 'read');
+
+        expect(acks).toEqual([expect.objectContaining({ messageId, status: 'read' })]);
+    });
+
+    describe('groups', () => {
+        let filePath: string;
+
+        beforeEach(() => {
+            const workbook = XLSX.utils.book_new();
+            XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+                ['Name', 'Phone'],
+                ['Asha', '+919876543210'],
+                ['Ben', 'not a number']
+            ]), 'Contacts');
+            filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'whatsapp-handler-')), 'contacts.xlsx');
+            XLSX.writeFile(workbook, filePath);
+        });
+
+        afterEach(() => {
+            fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+        });
+
+        it('creates a group from the valid numbers of a sheet', async () => {
+            await connect();
+            const result = await handler.createGroupFromExcel(filePath, null, 'Phone', 'Customers');
+
+            expect(result.success).toBe(true);
+            expect(result.rejectedNumbers).toHaveLength(1);
+            expect(transport.groups).toEqual([{ id: result.groupId, name: 'Customers', participants: ['919876543210@c.us'] }]);
+        });
+    });
+
+    describe('connecting', () => {
+        it('goes through the login steps to ready', async () => {
+            const phases: ConnectionPhase[] = [];
+            transport.requireQrScan();
+            handler = new WhatsAppHandler({ transport, logger: silent });
+            handler.on('connection_state', state => phases.push(state.phase));
+            handler.on('qr', () => setTimeout(() => transport.simulateQrScan(), 10));
+
+            await handler.initialize();
+
+            expect(phases).toEqual(['launching', 'awaiting_qr', 'syncing', 'ready']);
+        });
+
+        it('fails when the QR code is not scanned in time', async () => {
+            transport.requireQrScan();
+            handler = new WhatsAppHandler({ transport, logger: silent, connectTimeouts: { awaiting_qr: 0.05 } });
+
+            await expect(handler.initialize()).rejects.toThrow('waiting for the QR code to be scanned');
+            expect(handler.getConnectionState().phase).toBe('failed');
+        });
+    });
+});
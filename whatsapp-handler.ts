@@ -1,207 +1,385 @@
-import pkg from 'whatsapp-web.js';
-import type { Client as ClientType } from 'whatsapp-web.js';
-const { Client, LocalAuth } = pkg;
 import XLSX from 'xlsx';
 import fs from 'fs';
 import { EventEmitter } from 'events';
-import { ExcelRow, MessageResult, ProgressData, CreateGroupResult, CreateGroupOptions } from './src/types.js';
-import { execSync } from 'child_process';
-import path from 'path';
-import { app } from 'electron';
-import puppeteer from 'puppeteer';
-
-interface SendMessagesResults {
-    total: number;
-    success: number;
-    failed: number;
-    details: Array<{
-        index: number;
-        phone: string;
-        status: 'success' | 'failed';
-        error?: string;
-    }>;
+import { ExcelRow, MessageResult, ProgressData, CreateGroupResult, SendMessagesOptions, SendMessagesResults, SendMessageDetail, CampaignState, ConnectionPhase, ConnectionState, PacingPolicy, RetryPolicy, OptOutSettings, OptOutEvent, IncomingMessage, MessageAckEvent, DeliveryStatus, TemplateIssue, RejectedPhone, RecipientCheck, AttachmentResult, ReconnectEvent } from './src/types.js';
+import { parseTemplate, renderTemplate } from './template-engine.js';
+import { normalizePhoneNumber, toChatId } from './phone-number.js';
+import { nextDelay, nextSendSlot, resolvePacing } from './send-pacing.js';
+import { isRetryableError, resolveRetryPolicy, retryDelay } from './send-retry.js';
+import { groupRecipients } from './recipient-dedupe.js';
+import SendLedger from './send-ledger.js';
+import SuppressionList from './suppression-list.js';
+import { DEFAULT_OPT_OUT_SETTINGS, matchOptOutKeyword } from './opt-out.js';
+import { Logger, MessagingTransport, OutgoingMedia, TransportMessage } from './messaging-transport.js';
+
+// How often a paused or sleeping campaign re-checks its control state
+const CONTROL_POLL_INTERVAL = 500;
+
+// Reconnection after an unexpected disconnect: 5s, 10s, 20s... up to 5 minutes between attempts
+const DEFAULT_RECONNECT_POLICY: RetryPolicy = { maxAttempts: 10, baseDelay: 5, maxDelay: 300 };
+
+/**
+ * How long each step of connecting may take, in seconds, before the attempt fails. Loading
+ * progress while syncing restarts the clock, so only a stalled sync times out.
+ */
+export interface ConnectTimeouts {
+    launching: number;
+    awaiting_qr: number;
+    authenticating: number;
+    syncing: number;
 }
 
-class WhatsAppHandler extends EventEmitter {
-    private client: ClientType | null;
-    private isReady: boolean;
+const DEFAULT_CONNECT_TIMEOUTS: ConnectTimeouts = { launching: 120, awaiting_qr: 300, authenticating: 120, syncing: 300 };
 
-    constructor() {
-        super();
-        this.client = null;
-        this.isReady = false;
-    }
+// What the connection was doing when a step timed out
+const CONNECT_STEP_DESCRIPTIONS: Record<keyof ConnectTimeouts, string> = {
+    launching: 'starting the browser',
+    awaiting_qr: 'waiting for the QR code to be scanned',
+    authenticating: 'logging in',
+    syncing: 'loading chats'
+};
 
-    private async getChromiumPath(): Promise<string> {
-        try {
-            // Use puppeteer's bundled Chromium
-            // Launch a browser instance to ensure Chromium is downloaded
-            const browser = await puppeteer.launch({ 
-                headless: true,
-                args: ['--no-sandbox', '--disable-setuid-sandbox']
-            });
-            const chromiumPath = browser.process()?.spawnfile || '';
-            await browser.close();
-            
-            if (chromiumPath && fs.existsSync(chromiumPath)) {
-                console.log('Using puppeteer bundled Chromium at:', chromiumPath);
-                return chromiumPath;
-            }
-            
-            // If we can't get the path, fallback to system Chrome
-            console.log('Could not get Chromium path from puppeteer, trying system Chrome');
-            return this.findSystemChrome();
-        } catch (error) {
-            console.error('Error getting Chromium from puppeteer:', error);
-            // Fallback to system Chrome if puppeteer fails
-            return this.findSystemChrome();
-        }
-    }
+function isConnectStep(phase: ConnectionPhase): phase is keyof ConnectTimeouts {
+    return phase in DEFAULT_CONNECT_TIMEOUTS;
+}
 
-    private findSystemChrome(): string {
-        try {
-            const platform = process.platform;
-            let possiblePaths: string[] = [];
-
-            if (platform === 'darwin') {
-                // macOS paths
-                possiblePaths = [
-                    '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
-                    '/Applications/Chromium.app/Contents/MacOS/Chromium',
-                    '/Applications/Microsoft Edge.app/Contents/MacOS/Microsoft Edge',
-                    '/Applications/Brave Browser.app/Contents/MacOS/Brave Browser'
-                ];
-            } else if (platform === 'win32') {
-                // Windows paths
-                const programFiles = process.env['ProgramFiles'] || 'C:\\Program Files';
-                const programFilesX86 = process.env['ProgramFiles(x86)'] || 'C:\\Program Files (x86)';
-                const localAppData = process.env['LOCALAPPDATA'] || path.join(process.env['USERPROFILE'] || '', 'AppData', 'Local');
-
-                possiblePaths = [
-                    path.join(programFiles, 'Google\\Chrome\\Application\\chrome.exe'),
-                    path.join(programFilesX86, 'Google\\Chrome\\Application\\chrome.exe'),
-                    path.join(localAppData, 'Google\\Chrome\\Application\\chrome.exe'),
-                    path.join(programFiles, 'Microsoft\\Edge\\Application\\msedge.exe'),
-                    path.join(programFilesX86, 'Microsoft\\Edge\\Application\\msedge.exe'),
-                    path.join(programFiles, 'BraveSoftware\\Brave-Browser\\Application\\brave.exe'),
-                    path.join(programFilesX86, 'BraveSoftware\\Brave-Browser\\Application\\brave.exe'),
-                    path.join(localAppData, 'Chromium\\Application\\chrome.exe')
-                ];
-            } else {
-                // Linux paths
-                possiblePaths = [
-                    '/usr/bin/google-chrome',
-                    '/usr/bin/chromium',
-                    '/usr/bin/chromium-browser',
-                    '/snap/bin/chromium',
-                    '/usr/bin/microsoft-edge'
-                ];
-            }
+// Disconnect reasons after which the saved session is gone, so reconnecting would only show a QR code
+const SESSION_ENDED_REASONS = ['LOGOUT', 'UNPAIRED'];
 
-            for (const chromePath of possiblePaths) {
-                if (fs.existsSync(chromePath)) {
-                    console.log('Found system browser at:', chromePath);
-                    return chromePath;
-                }
-            }
+// How long a WhatsApp registration lookup stays valid
+const REGISTRATION_CACHE_TTL = 24 * 60 * 60 * 1000;
 
-            // Try to use command to find chrome (works on macOS/Linux)
-            if (platform !== 'win32') {
-                try {
-                    const result = execSync('which google-chrome-stable || which chromium || which google-chrome', { encoding: 'utf8' }).trim();
-                    if (result && fs.existsSync(result)) {
-                        console.log('Found browser via which:', result);
-                        return result;
-                    }
-                } catch (e) {
-                    // Ignore error
-                }
-            }
-        } catch (error) {
-            console.error('Error finding Chrome:', error);
-        }
-        return '';
-    }
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-    async initialize(): Promise<void> {
-        console.log('Initializing WhatsApp client...');
-        console.log('App is packaged:', app.isPackaged);
-        console.log('User data path:', app.getPath('userData'));
-        
-        // Get Chromium path from puppeteer (downloads if needed)
-        const chromiumPath = await this.getChromiumPath();
-        console.log('Chromium path to use:', chromiumPath);
-        
-        const puppeteerConfig: any = {
-            headless: false,
-            args: [
-                '--no-sandbox',
-                '--disable-setuid-sandbox',
-                '--disable-dev-shm-usage',
-                '--disable-accelerated-2d-canvas',
-                '--no-first-run',
-                '--no-zygote',
-                '--disable-gpu'
-            ]
-        };
+interface RegistrationEntry {
+    registered: boolean;
+    // The ID WhatsApp resolved the number to, which can differ from the typed number
+    chatId?: string;
+    checkedAt: number;
+}
 
-        if (chromiumPath) {
-            puppeteerConfig.executablePath = chromiumPath;
-        }
+export interface WhatsAppHandlerOptions {
+    // Connection to WhatsApp, usually a WhatsAppWebTransport
+    transport: MessagingTransport;
+    // Pass a persistent ledger and do-not-contact list so limits and opt-outs survive restarts
+    sendLedger?: SendLedger;
+    suppressionList?: SuppressionList;
+    // Backoff for reconnecting after an unexpected disconnect; maxAttempts 0 turns it off
+    reconnect?: RetryPolicy;
+    connectTimeouts?: Partial<ConnectTimeouts>;
+    logger?: Logger;
+}
 
-        // Use userData path for auth storage - works in both dev and production
-        const authPath = path.join(app.getPath('userData'), 'wwebjs_auth');
-        console.log('Auth path:', authPath);
-        
-        // Ensure the directory exists
-        if (!fs.existsSync(authPath)) {
-            fs.mkdirSync(authPath, { recursive: true });
-        }
+export interface CampaignHooks {
+    onProgress?: (progress: ProgressData) => void;
+    // Called as soon as each row's outcome is known, so callers can persist it
+    onResult?: (detail: SendMessageDetail) => void;
+}
 
-        this.client = new Client({
-            authStrategy: new LocalAuth({
-                dataPath: authPath
-            }),
-            puppeteer: puppeteerConfig
+class WhatsAppHandler extends EventEmitter {
+    private transport: MessagingTransport;
+    private logger: Logger;
+    private connection: ConnectionState;
+    private connectTimeouts: ConnectTimeouts;
+    // Fails the connection when the current step takes too long
+    private connectTimer: NodeJS.Timeout | null;
+    private reconnectPolicy: RetryPolicy;
+    private reconnecting: boolean;
+    // Attempt in progress while reconnecting, reported with every connection state
+    private reconnectAttempt: ReconnectEvent | null;
+    // Set by destroy(), so a pending reconnect gives up instead of bringing the client back
+    private destroyed: boolean;
+    private campaignState: CampaignState;
+    private registrationCache: Map<string, RegistrationEntry>;
+    private sendLedger: SendLedger;
+    private suppressionList: SuppressionList;
+    private optOutSettings: OptOutSettings;
+    // Rows merged into each message of the running campaign, keyed by the row the message is sent for
+    private mergedRows: Map<number, ExcelRow[]>;
+
+    constructor(options: WhatsAppHandlerOptions) {
+        super();
+        this.transport = options.transport;
+        this.logger = options.logger ?? console;
+        this.connection = { phase: 'disconnected', since: new Date().toISOString() };
+        this.connectTimeouts = { ...DEFAULT_CONNECT_TIMEOUTS, ...options.connectTimeouts };
+        this.connectTimer = null;
+        this.reconnectPolicy = options.reconnect ?? DEFAULT_RECONNECT_POLICY;
+        this.reconnecting = false;
+        this.reconnectAttempt = null;
+        this.destroyed = false;
+        this.campaignState = 'idle';
+        this.registrationCache = new Map();
+        this.sendLedger = options.sendLedger ?? new SendLedger();
+        this.suppressionList = options.suppressionList ?? new SuppressionList();
+        this.optOutSettings = DEFAULT_OPT_OUT_SETTINGS;
+        this.mergedRows = new Map();
+
+        // Late events from a connection that already failed are ignored
+        this.transport.on('qr', (qr: string) => {
+            if (this.connection.phase === 'failed') return;
+            this.logger.log('QR code received');
+            // A refreshed QR code keeps the phase, so the QR timeout still runs out
+            this.setConnectionState('awaiting_qr');
+            this.emit('qr', qr);
         });
 
-        this.client.on('qr', (qr: string) => {
-            console.log('QR code received');
-            this.emit('qr', qr);
+        this.transport.on('loading_screen', (percent: number) => {
+            if (this.connection.phase === 'failed') return;
+            this.setConnectionState('syncing', { percent });
         });
 
-        this.client.on('authenticated', () => {
-            console.log('Authenticated!');
+        this.transport.on('authenticated', () => {
+            if (this.connection.phase === 'failed') return;
+            this.logger.log('Authenticated!');
+            if (this.connection.phase !== 'syncing') {
+                this.setConnectionState('syncing');
+            }
             this.emit('authenticated');
         });
 
-        this.client.on('ready', () => {
-            this.isReady = true;
+        this.transport.on('ready', () => {
+            if (this.connection.phase === 'failed') return;
+            this.setConnectionState('ready');
             this.emit('ready');
         });
 
-        this.client.on('auth_failure', (msg: string) => {
+        this.transport.on('auth_failure', (msg: string) => {
             this.emit('auth_failure', msg);
+            this.failConnection(`Authentication failure: ${msg}`);
         });
 
-        this.client.on('disconnected', (reason: string) => {
-            this.isReady = false;
+        this.transport.on('disconnected', (reason: string) => {
+            const wasReady = this.isConnected();
+            if (wasReady) {
+                this.setConnectionState('disconnected', { error: reason });
+            } else if (isConnectStep(this.connection.phase)) {
+                // Dropped while still connecting, e.g. after too many QR codes went unscanned
+                this.failConnection(`Disconnected: ${reason}`);
+            }
             this.emit('disconnected', reason);
+
+            if (wasReady && !this.destroyed && !SESSION_ENDED_REASONS.includes(reason)) {
+                this.reconnect().catch(error => {
+                    this.logger.error('Error reconnecting WhatsApp:', error);
+                });
+            }
+        });
+
+        this.transport.on('message', (message: TransportMessage) => {
+            this.handleIncomingMessage(message).catch(error => {
+                this.logger.error('Error handling incoming message:', error);
+            });
         });
 
-        await this.client.initialize();
+        this.transport.on('message_ack', (messageId: string, status: DeliveryStatus) => {
+            const event: MessageAckEvent = { messageId, status, timestamp: new Date().toISOString() };
+            this.emit('message_ack', event);
+        });
+    }
 
-        // Wait for ready state
-        return new Promise<void>((resolve) => {
-            const checkReady = setInterval(() => {
-                if (this.isReady) {
-                    clearInterval(checkReady);
+    /**
+     * Connects to WhatsApp. Resolves once the client is ready; rejects when authentication
+     * fails, the connection drops or a step takes longer than its timeout.
+     */
+    async initialize(): Promise<void> {
+        this.logger.log('Initializing WhatsApp client...');
+        this.destroyed = false;
+        await this.connect();
+    }
+
+    private async connect(): Promise<void> {
+        this.setConnectionState('launching');
+        try {
+            await this.transport.initialize();
+        } catch (error) {
+            this.failConnection(error instanceof Error ? error.message : 'Could not start WhatsApp');
+        }
+
+        // WhatsApp Web is up without asking for a QR code, so the saved session is being restored
+        if (this.connection.phase === 'launching') {
+            this.setConnectionState('authenticating');
+        }
+
+        return new Promise<void>((resolve, reject) => {
+            const settle = (): void => {
+                const { phase, error } = this.connection;
+                if (phase === 'ready') {
+                    this.off('connection_state', settle);
                     resolve();
+                } else if (phase === 'failed' || phase === 'disconnected') {
+                    this.off('connection_state', settle);
+                    reject(new Error(error ?? 'WhatsApp disconnected'));
                 }
-            }, 1000);
+            };
+            this.on('connection_state', settle);
+            settle();
+        });
+    }
+
+    getConnectionState(): ConnectionState {
+        return this.connection;
+    }
+
+    private setConnectionState(phase: ConnectionPhase, details: Pick<ConnectionState, 'percent' | 'error'> = {}): void {
+        const previous = this.connection;
+        this.connection = {
+            phase,
+            ...details,
+            // Once ready, the reconnect is over
+            reconnect: phase !== 'ready' ? this.reconnectAttempt ?? undefined : undefined,
+            since: phase === previous.phase ? previous.since : new Date().toISOString()
+        };
+
+        // Only a new step or new loading progress restarts the clock
+        if (phase !== previous.phase || details.percent !== previous.percent) {
+            this.restartConnectTimer(phase);
+        }
+        this.emit('connection_state', this.connection);
+    }
+
+    private restartConnectTimer(phase: ConnectionPhase): void {
+        if (this.connectTimer) {
+            clearTimeout(this.connectTimer);
+            this.connectTimer = null;
+        }
+        if (!isConnectStep(phase)) {
+            return;
+        }
+
+        const seconds = this.connectTimeouts[phase];
+        this.connectTimer = setTimeout(() => {
+            this.failConnection(`Timed out after ${seconds} seconds ${CONNECT_STEP_DESCRIPTIONS[phase]}`);
+        }, seconds * 1000);
+    }
+
+    // Gives up on connecting and closes the browser, so a stuck QR screen or page doesn't linger
+    private failConnection(error: string): void {
+        if (this.connection.phase === 'failed') {
+            return;
+        }
+        this.setConnectionState('failed', { error });
+        this.transport.destroy().catch(destroyError => {
+            this.logger.error('Error closing WhatsApp after a failed connection:', destroyError);
         });
     }
 
+    setOptOutSettings(settings: OptOutSettings): void {
+        this.optOutSettings = settings;
+    }
+
+    private async handleIncomingMessage(message: TransportMessage): Promise<void> {
+        const normalized = message.number ? normalizePhoneNumber(`+${message.number}`) : null;
+        if (!normalized?.valid) {
+            return;
+        }
+        const e164 = normalized.e164;
+
+        const keyword = this.optOutSettings.enabled ? matchOptOutKeyword(message.body, this.optOutSettings.keywords) : null;
+        const added = keyword ? this.suppressionList.add([e164], 'reply', undefined, `Replied "${message.body.trim()}"`).added : 0;
+
+        const incoming: IncomingMessage = {
+            e164,
+            body: message.body,
+            hasMedia: message.hasMedia,
+            timestamp: message.timestamp.toISOString(),
+            optedOut: keyword !== null
+        };
+        this.emit('message_received', incoming);
+
+        if (!keyword) {
+            return;
+        }
+
+        const event: OptOutEvent = { e164, keyword, message: message.body, timestamp: new Date().toISOString() };
+        this.emit('opt_out', event);
+
+        // Only confirm the first time, so repeated replies don't start a back-and-forth
+        const { sendConfirmation, confirmationMessage } = this.optOutSettings;
+        if (added > 0 && sendConfirmation && confirmationMessage.trim()) {
+            await this.transport.sendText(message.chatId, confirmationMessage.trim());
+        }
+    }
+
+    isConnected(): boolean {
+        return this.connection.phase === 'ready';
+    }
+
+    /**
+     * Brings the connection back after an unexpected disconnect, restarting the transport with
+     * the saved session and waiting longer after each failed attempt. Emits 'reconnecting'
+     * before each attempt and 'reconnect_failed' when it gives up; 'ready' follows on success.
+     */
+    private async reconnect(): Promise<void> {
+        if (this.reconnecting) {
+            return;
+        }
+        this.reconnecting = true;
+        try {
+            for (let attempt = 1; attempt <= this.reconnectPolicy.maxAttempts; attempt++) {
+                const delay = retryDelay(this.reconnectPolicy, attempt);
+                this.reconnectAttempt = {
+                    attempt,
+                    maxAttempts: this.reconnectPolicy.maxAttempts,
+                    retryAt: new Date(Date.now() + delay).toISOString()
+                };
+                this.setConnectionState('reconnecting');
+                this.emit('reconnecting', this.reconnectAttempt);
+
+                const end = Date.now() + delay;
+                while (!this.destroyed && Date.now() < end) {
+                    await sleep(Math.min(CONTROL_POLL_INTERVAL, end - Date.now()));
+                }
+                if (this.destroyed) {
+                    return;
+                }
+
+                try {
+                    await this.transport.destroy();
+                    await this.connect();
+                    return;
+                } catch (error) {
+                    if (this.destroyed) {
+                        return;
+                    }
+                    this.logger.error(`Reconnect attempt ${attempt} failed:`, error);
+                }
+            }
+
+            this.reconnectAttempt = null;
+            this.setConnectionState('failed', { error: `Could not reconnect after ${this.reconnectPolicy.maxAttempts} attempts` });
+            this.emit('reconnect_failed', this.reconnectPolicy.maxAttempts);
+        } finally {
+            this.reconnecting = false;
+            this.reconnectAttempt = null;
+        }
+    }
+
+    /**
+     * Holds the campaign while a reconnect is under way, showing it as paused, and picks it
+     * up again once WhatsApp is ready. Returns false when the connection is not coming back.
+     */
+    private async waitForConnection(): Promise<boolean> {
+        const autoPaused = this.campaignState === 'running' && this.reconnecting;
+        if (autoPaused) {
+            this.setCampaignState('paused');
+        }
+
+        while (!this.isConnected() && this.reconnecting && this.campaignState !== 'cancelled') {
+            await sleep(CONTROL_POLL_INTERVAL);
+        }
+
+        if (autoPaused && this.campaignState === 'paused') {
+            this.setCampaignState(this.isConnected() ? 'running' : 'idle');
+        }
+        return this.isConnected();
+    }
+
+    // A send that failed because the connection dropped never reached WhatsApp, so it can go again after reconnecting
+    private failedForDisconnect(result: MessageResult): boolean {
+        return result.status === 'failed' && !this.isConnected() && (isRetryableError(result.error) || /not initialized/i.test(result.error ?? ''));
+    }
+
     getExcelSheets(filePath: string): string[] {
         if (!fs.existsSync(filePath)) {
             throw new Error(`File not found: ${filePath}`);
@@ -252,41 +430,62 @@ class WhatsAppHandler extends EventEmitter {
     }
 
     formatMessage(template: string, rowData: ExcelRow): string {
-        let message = template;
-        
-        Object.keys(rowData).forEach(column => {
-            const placeholder = `{${column}}`;
-            let value = '';
-            
-            if (rowData[column] !== undefined && rowData[column] !== null) {
-                const cellValue = rowData[column];
-                // Handle dates
-                if (cellValue instanceof Date) {
-                    value = cellValue.toLocaleDateString();
-                } else {
-                    value = cellValue.toString();
-                }
+        return renderTemplate(template, rowData).text;
+    }
+
+    /**
+     * Render the template against every row and report the rows with unresolved placeholders.
+     * Throws if the template itself has a syntax error.
+     */
+    checkTemplate(template: string, data: ExcelRow[]): TemplateIssue[] {
+        parseTemplate(template);
+
+        const issues: TemplateIssue[] = [];
+        data.forEach((row, index) => {
+            const { unresolved } = renderTemplate(template, row);
+            if (unresolved.length > 0) {
+                issues.push({ rowIndex: row.__rowIndex ?? index, unresolved });
             }
-            
-            message = message.split(placeholder).join(value);
         });
+        return issues;
+    }
 
-        return message;
+    formatPhoneNumber(phone: string | number, defaultCountryCode?: string): string {
+        const normalized = normalizePhoneNumber(phone, defaultCountryCode);
+        if (!normalized.valid) {
+            throw new Error(`Invalid phone number ${normalized.input}: ${normalized.reason}`);
+        }
+        return toChatId(normalized.e164);
     }
 
-    formatPhoneNumber(phone: string | number): string {
-        const cleaned = phone.toString().replace(/\D/g, '');
-        return cleaned + '@c.us';
+    async sendMessage(phone: string | number, message: string, defaultCountryCode?: string): Promise<MessageResult> {
+        try {
+            const chatId = this.formatPhoneNumber(phone, defaultCountryCode);
+            return await this.sendToChat(chatId, phone, message);
+        } catch (error) {
+            return { 
+                phone: phone.toString(), 
+                status: 'failed', 
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
     }
 
-    async sendMessage(phone: string | number, message: string): Promise<MessageResult> {
+    // Load an attachment from a local path or an http(s) URL
+    async loadAttachment(source: string): Promise<OutgoingMedia> {
+        if (!/^https?:\/\//i.test(source) && !fs.existsSync(source)) {
+            throw new Error(`Attachment not found: ${source}`);
+        }
+        return this.transport.loadMedia(source);
+    }
+
+    private async sendToChat(chatId: string, phone: string | number, message: string, media?: OutgoingMedia): Promise<MessageResult> {
         try {
-            if (!this.client) {
-                throw new Error('WhatsApp client not initialized');
-            }
-            const chatId = this.formatPhoneNumber(phone);
-            await this.client.sendMessage(chatId, message);
-            return { phone: phone.toString(), status: 'success' };
+            // The rendered message becomes the caption of the attachment
+            const sent = media
+                ? await this.transport.sendMedia(chatId, media, message || undefined)
+                : await this.transport.sendText(chatId, message);
+            return { phone: phone.toString(), status: 'success', messageId: sent.id };
         } catch (error) {
             return { 
                 phone: phone.toString(), 
@@ -296,139 +495,495 @@ class WhatsAppHandler extends EventEmitter {
         }
     }
 
-    async sendMessages(
-        data: ExcelRow[], 
-        phoneColumn: string, 
-        template: string, 
-        delay: number, 
-        progressCallback?: (progress: ProgressData) => void
-    ): Promise<SendMessagesResults> {
+    /**
+     * Look up whether a normalized number has a WhatsApp account. Results are cached,
+     * so verifying a sheet before sending makes the lookups during sending free.
+     */
+    async lookupRegistration(e164: string): Promise<RegistrationEntry> {
+        const cached = this.registrationCache.get(e164);
+        if (cached && Date.now() - cached.checkedAt < REGISTRATION_CACHE_TTL) {
+            return cached;
+        }
+
+        const chatId = await this.transport.lookupNumber(e164.replace(/\D/g, ''));
+        const entry: RegistrationEntry = {
+            registered: chatId !== null,
+            chatId: chatId ?? undefined,
+            checkedAt: Date.now()
+        };
+        this.registrationCache.set(e164, entry);
+        return entry;
+    }
+
+    async verifyRecipients(
+        data: ExcelRow[],
+        phoneColumn: string,
+        defaultCountryCode?: string,
+        progressCallback?: (progress: { current: number; total: number }) => void
+    ): Promise<RecipientCheck[]> {
+        const checks: RecipientCheck[] = [];
+
+        for (let i = 0; i < data.length; i++) {
+            const row = data[i];
+            const rowIndex = row.__rowIndex ?? i;
+            const phone = row[phoneColumn];
+
+            if (!phone || phone instanceof Date) {
+                checks.push({ rowIndex, phone: 'N/A', status: 'invalid', reason: 'No phone number' });
+            } else {
+                const normalized = normalizePhoneNumber(phone, defaultCountryCode);
+                if (!normalized.valid) {
+                    checks.push({ rowIndex, phone: phone.toString(), status: 'invalid', reason: normalized.reason });
+                } else {
+                    try {
+                        const { registered } = await this.lookupRegistration(normalized.e164);
+                        checks.push({
+                            rowIndex,
+                            phone: phone.toString(),
+                            e164: normalized.e164,
+                            status: registered ? 'registered' : 'unregistered'
+                        });
+                    } catch (error) {
+                        checks.push({
+                            rowIndex,
+                            phone: phone.toString(),
+                            e164: normalized.e164,
+                            status: 'error',
+                            reason: error instanceof Error ? error.message : 'Unknown error'
+                        });
+                    }
+                }
+            }
+
+            if (progressCallback) {
+                progressCallback({ current: i + 1, total: data.length });
+            }
+        }
+
+        return checks;
+    }
+
+    getCampaignState(): CampaignState {
+        return this.campaignState;
+    }
+
+    pauseCampaign(): void {
+        if (this.campaignState !== 'running') {
+            throw new Error('No running campaign to pause');
+        }
+        this.setCampaignState('paused');
+    }
+
+    resumeCampaign(): void {
+        if (this.campaignState !== 'paused') {
+            throw new Error('No paused campaign to resume');
+        }
+        this.setCampaignState('running');
+    }
+
+    cancelCampaign(): void {
+        if (this.campaignState !== 'running' && this.campaignState !== 'paused') {
+            throw new Error('No active campaign to cancel');
+        }
+        this.setCampaignState('cancelled');
+    }
+
+    private setCampaignState(state: CampaignState): void {
+        this.campaignState = state;
+        this.emit('campaign_state', state);
+    }
+
+    private async waitWhilePaused(): Promise<void> {
+        while (this.campaignState === 'paused') {
+            await sleep(CONTROL_POLL_INTERVAL);
+        }
+    }
+
+    // Sleeps in short slices so a cancel takes effect without waiting out the full delay
+    private async waitBetweenMessages(ms: number): Promise<void> {
+        const end = Date.now() + ms;
+        while (this.campaignState !== 'cancelled' && Date.now() < end) {
+            await sleep(Math.min(CONTROL_POLL_INTERVAL, end - Date.now()));
+        }
+    }
+
+    // Retries sends that fail with a transient error, waiting longer after each failure
+    private async sendWithRetry(
+        chatId: string,
+        phone: string | number,
+        message: string,
+        media: OutgoingMedia | undefined,
+        retry: RetryPolicy,
+        onRetry: (attempt: number, error?: string) => void
+    ): Promise<MessageResult & { attempts: number }> {
+        let attempts = 1;
+        let result = await this.sendToChat(chatId, phone, message, media);
+
+        while (result.status === 'failed' && attempts < retry.maxAttempts && isRetryableError(result.error)) {
+            onRetry(attempts, result.error);
+            await this.waitBetweenMessages(retryDelay(retry, attempts));
+            if (this.campaignState === 'cancelled' || !this.isConnected()) {
+                break;
+            }
+
+            attempts++;
+            result = await this.sendToChat(chatId, phone, message, media);
+        }
+
+        return { ...result, attempts };
+    }
+
+    // Waits until another message fits within the hourly and daily limits
+    private async waitForSendSlot(pacing: PacingPolicy, onWait: (until: Date) => void): Promise<void> {
+        const slot = nextSendSlot(this.sendLedger.recent(), pacing, Date.now());
+        if (slot <= Date.now()) return;
+
+        onWait(new Date(slot));
+        await this.waitBetweenMessages(slot - Date.now());
+    }
+
+    async sendMessages(options: SendMessagesOptions, hooks: CampaignHooks = {}): Promise<SendMessagesResults> {
+        if (this.campaignState !== 'idle') {
+            throw new Error('A campaign is already running');
+        }
+
+        // Surface template syntax errors before anything is sent
+        parseTemplate(options.template);
+
         const results: SendMessagesResults = {
-            total: data.length,
+            total: options.data.length,
             success: 0,
             failed: 0,
+            cancelled: 0,
+            unregistered: 0,
+            duplicate: 0,
+            suppressed: 0,
             details: []
         };
 
+        this.setCampaignState('running');
+        try {
+            await this.runCampaign(options, results, hooks);
+        } finally {
+            this.mergedRows = new Map();
+            this.setCampaignState('idle');
+        }
+
+        return results;
+    }
+
+    private recordResult(results: SendMessagesResults, detail: SendMessageDetail, hooks: CampaignHooks): void {
+        results[detail.status]++;
+        results.details.push(detail);
+
+        if (hooks.onResult) {
+            hooks.onResult(detail);
+        }
+
+        // Rows merged into this message share its outcome; they all have the same number
+        for (const row of this.mergedRows.get(detail.rowIndex) ?? []) {
+            if (row.__rowIndex === detail.rowIndex) continue;
+            this.recordResult(results, { ...detail, rowIndex: row.__rowIndex as number, mergedInto: detail.rowIndex }, hooks);
+        }
+    }
+
+    // Record a row that failed before any send was attempted
+    private rejectRow(results: SendMessagesResults, hooks: CampaignHooks, detail: Omit<SendMessageDetail, 'status' | 'timestamp'>): void {
+        this.recordResult(results, { ...detail, status: 'failed', timestamp: new Date().toISOString() }, hooks);
+
+        if (hooks.onProgress) {
+            hooks.onProgress({
+                current: detail.index + 1,
+                total: results.total,
+                phone: detail.phone,
+                status: 'failed',
+                error: detail.error
+            });
+        }
+    }
+
+    private cancelRemaining(results: SendMessagesResults, hooks: CampaignHooks, data: ExcelRow[], phoneColumn: string, from: number): void {
+        for (let j = from; j < data.length; j++) {
+            const skippedPhone = data[j][phoneColumn];
+            this.recordResult(results, {
+                index: j,
+                rowIndex: data[j].__rowIndex ?? j,
+                phone: skippedPhone && !(skippedPhone instanceof Date) ? skippedPhone.toString() : 'N/A',
+                status: 'cancelled',
+                error: 'Cancelled by user',
+                timestamp: new Date().toISOString()
+            }, hooks);
+        }
+    }
+
+    private async runCampaign(options: SendMessagesOptions, results: SendMessagesResults, hooks: CampaignHooks): Promise<void> {
+        const { phoneColumn, template, defaultCountryCode } = options;
+        const groups = groupRecipients(options.data, phoneColumn, options.dedupe ?? 'none', defaultCountryCode);
+        const data = groups.map(group => group.row);
+        this.mergedRows = new Map(groups
+            .filter(group => group.rows.length > 1)
+            .map(group => [group.row.__rowIndex as number, group.rows]));
+
+        groups.forEach((group, index) => {
+            for (const row of group.dropped) {
+                const droppedPhone = row[phoneColumn];
+                this.recordResult(results, {
+                    index,
+                    rowIndex: row.__rowIndex as number,
+                    phone: droppedPhone && !(droppedPhone instanceof Date) ? droppedPhone.toString() : 'N/A',
+                    status: 'duplicate',
+                    error: `Duplicate of row ${(group.row.__rowIndex as number) + 1}`,
+                    timestamp: new Date().toISOString()
+                }, hooks);
+            }
+        });
+
+        const pacing = resolvePacing(options);
+        const retry = resolveRetryPolicy(options);
+        // Every attempt reaches WhatsApp, failed ones too, so they all count towards breaks
+        let attemptCount = 0;
+        let attemptsAtLastDelay = 0;
+        // A fixed attachment is only read once per campaign
+        const attachmentCache = new Map<string, OutgoingMedia>();
+
         for (let i = 0; i < data.length; i++) {
+            await this.waitWhilePaused();
+
+            if (this.campaignState === 'cancelled') {
+                this.cancelRemaining(results, hooks, data, phoneColumn, i);
+                break;
+            }
+
+            // Wait out a reconnect; if it fails, stop rather than fail every remaining row, so
+            // callers can continue from the unsent rows later
+            if (!this.isConnected() && !await this.waitForConnection()) {
+                if (this.getCampaignState() === 'cancelled') {
+                    this.cancelRemaining(results, hooks, data, phoneColumn, i);
+                    break;
+                }
+                throw new Error('WhatsApp disconnected during the campaign');
+            }
+
             const row = data[i];
+            const rowIndex = row.__rowIndex ?? i;
             const phone = row[phoneColumn];
             
             if (!phone || phone instanceof Date) {
-                results.failed++;
-                results.details.push({
-                    index: i,
-                    phone: 'N/A',
-                    status: 'failed',
-                    error: 'No phone number'
-                });
-                
-                if (progressCallback) {
-                    progressCallback({
-                        current: i + 1,
-                        total: data.length,
-                        phone: 'N/A',
-                        status: 'failed',
-                        error: 'No phone number'
-                    });
-                }
+                this.rejectRow(results, hooks, { index: i, rowIndex, phone: 'N/A', error: 'No phone number' });
                 continue;
             }
 
-            const message = this.formatMessage(template, row);
-            
-            if (progressCallback) {
-                progressCallback({
-                    current: i + 1,
-                    total: data.length,
-                    phone: typeof phone === 'string' || typeof phone === 'number' ? phone.toString() : String(phone),
-                    status: 'sending'
-                });
+            const normalized = normalizePhoneNumber(phone, defaultCountryCode);
+            if (!normalized.valid) {
+                this.rejectRow(results, hooks, { index: i, rowIndex, phone: phone.toString(), error: normalized.reason });
+                continue;
             }
 
-            const phoneValue = typeof phone === 'string' || typeof phone === 'number' ? phone : String(phone);
-            const result = await this.sendMessage(phoneValue, message);
-            
-            if (result.status === 'success') {
-                results.success++;
-                results.details.push({
+            if (this.suppressionList.has(normalized.e164)) {
+                this.recordResult(results, {
+                    index: i,
+                    rowIndex,
+                    phone: phone.toString(),
+                    e164: normalized.e164,
+                    status: 'suppressed',
+                    error: 'On the do-not-contact list',
+                    timestamp: new Date().toISOString()
+                }, hooks);
+                continue;
+            }
+
+            const { text: message, unresolved } = renderTemplate(template, row, this.mergedRows.get(rowIndex));
+
+            if (options.strictTemplate && unresolved.length > 0) {
+                this.rejectRow(results, hooks, {
                     index: i,
+                    rowIndex,
                     phone: phone.toString(),
-                    status: 'success'
+                    e164: normalized.e164,
+                    error: `Unresolved placeholders: ${unresolved.join(', ')}`
                 });
+                continue;
+            }
+            
+            let chatId = toChatId(normalized.e164);
+            if (options.skipUnregistered) {
+                try {
+                    const registration = await this.lookupRegistration(normalized.e164);
+                    if (!registration.registered) {
+                        this.recordResult(results, {
+                            index: i,
+                            rowIndex,
+                            phone: phone.toString(),
+                            e164: normalized.e164,
+                            status: 'unregistered',
+                            error: 'Not on WhatsApp',
+                            timestamp: new Date().toISOString()
+                        }, hooks);
+                        continue;
+                    }
+                    chatId = registration.chatId ?? chatId;
+                } catch (error) {
+                    // Lookup failures are not proof the number is unregistered, so try sending anyway
+                    this.logger.error('Registration lookup failed for', normalized.e164, error);
+                }
+            }
 
-                if (progressCallback) {
-                    progressCallback({
-                        current: i + 1,
+            let media: OutgoingMedia | undefined;
+            let attachment: AttachmentResult | undefined;
+            if (options.attachment) {
+                const source = renderTemplate(options.attachment, row).text.trim();
+                try {
+                    if (!source) {
+                        throw new Error('Attachment path is empty');
+                    }
+                    media = attachmentCache.get(source) ?? await this.loadAttachment(source);
+                    attachmentCache.set(source, media);
+                    attachment = { source, status: 'attached' };
+                } catch (error) {
+                    const reason = error instanceof Error ? error.message : 'Unknown error';
+                    this.rejectRow(results, hooks, {
+                        index: i,
+                        rowIndex,
+                        phone: phone.toString(),
+                        e164: normalized.e164,
+                        error: reason,
+                        attachment: { source, status: 'failed', error: reason }
+                    });
+                    continue;
+                }
+            }
+
+            await this.waitForSendSlot(pacing, until => {
+                if (hooks.onProgress) {
+                    hooks.onProgress({
+                        current: i,
                         total: data.length,
                         phone: phone.toString(),
-                        status: 'success'
+                        status: 'waiting',
+                        waitUntil: until.toISOString()
                     });
                 }
-            } else {
-                results.failed++;
-                results.details.push({
-                    index: i,
+            });
+            // The wait can be long, so check again for a cancel or disconnect
+            if (this.getCampaignState() === 'cancelled') {
+                this.cancelRemaining(results, hooks, data, phoneColumn, i);
+                break;
+            }
+            // Go round again for the same row, which waits out the reconnect
+            if (!this.isConnected()) {
+                i--;
+                continue;
+            }
+
+            if (hooks.onProgress) {
+                hooks.onProgress({
+                    current: i + 1,
+                    total: data.length,
                     phone: phone.toString(),
-                    status: 'failed',
-                    error: result.error
+                    status: 'sending'
                 });
+            }
 
-                if (progressCallback) {
-                    progressCallback({
+            const result = await this.sendWithRetry(chatId, phone, message, media, retry, (attempt, error) => {
+                if (hooks.onProgress) {
+                    hooks.onProgress({
                         current: i + 1,
                         total: data.length,
                         phone: phone.toString(),
-                        status: 'failed',
-                        error: result.error
+                        status: 'retrying',
+                        error,
+                        attempt
                     });
                 }
+            });
+            attemptCount += result.attempts;
+            // Send the row again once the connection is back, instead of counting it as failed
+            if (this.failedForDisconnect(result) && this.reconnecting) {
+                i--;
+                continue;
+            }
+
+            const error = result.error && result.attempts > 1
+                ? `${result.error} (after ${result.attempts} attempts)`
+                : result.error;
+            if (result.status === 'success') {
+                this.sendLedger.record();
+            }
+
+            this.recordResult(results, {
+                index: i,
+                rowIndex,
+                phone: phone.toString(),
+                e164: normalized.e164,
+                status: result.status,
+                error,
+                message,
+                attachment,
+                attempts: result.attempts > 1 ? result.attempts : undefined,
+                messageId: result.messageId,
+                timestamp: new Date().toISOString()
+            }, hooks);
+
+            if (hooks.onProgress) {
+                hooks.onProgress({
+                    current: i + 1,
+                    total: data.length,
+                    phone: phone.toString(),
+                    status: result.status,
+                    error
+                });
             }
 
             // Delay between messages (except for last message)
             if (i < data.length - 1) {
-                await new Promise(resolve => setTimeout(resolve, delay * 1000));
+                await this.waitBetweenMessages(nextDelay(pacing, attemptCount, attemptsAtLastDelay));
+                attemptsAtLastDelay = attemptCount;
             }
         }
-
-        return results;
     }
 
     async createGroupFromExcel(
         filePath: string,
         sheetName: string | null,
         phoneColumn: string,
-        groupName: string
+        groupName: string,
+        defaultCountryCode?: string
     ): Promise<CreateGroupResult> {
         try {
-            if (!this.client) {
-                throw new Error('WhatsApp client not initialized');
-            }
-
             // Read Excel data
             const data = this.readExcelFile(filePath, sheetName);
 
-            // Extract and format phone numbers
-            const participants: string[] = [];
+            // Extract and normalize phone numbers, keeping track of the ones we had to leave out
+            const participants = new Set<string>();
+            const rejectedNumbers: RejectedPhone[] = [];
+            const suppressedNumbers = new Set<string>();
             for (const row of data) {
                 const phone = row[phoneColumn];
                 if (phone && !(phone instanceof Date)) {
-                    const formattedPhone = this.formatPhoneNumber(phone);
-                    participants.push(formattedPhone);
+                    const normalized = normalizePhoneNumber(phone, defaultCountryCode);
+                    if (normalized.valid && this.suppressionList.has(normalized.e164)) {
+                        suppressedNumbers.add(normalized.e164);
+                    } else if (normalized.valid) {
+                        participants.add(toChatId(normalized.e164));
+                    } else {
+                        rejectedNumbers.push({ phone: normalized.input, reason: normalized.reason });
+                    }
                 }
             }
 
-            if (participants.length === 0) {
+            if (participants.size === 0) {
                 throw new Error('No valid phone numbers found in the Excel file');
             }
 
             // Create the group
-            const group = await this.client.createGroup(groupName, participants) as any;
+            const group = await this.transport.createGroup(groupName, [...participants]);
 
             return {
                 success: true,
-                groupId: group.id._serialized,
-                groupName: group.name
+                groupId: group.id,
+                groupName: group.name,
+                rejectedNumbers,
+                suppressedNumbers: [...suppressedNumbers]
             };
         } catch (error) {
             return {
@@ -439,11 +994,9 @@ class WhatsAppHandler extends EventEmitter {
     }
 
     async destroy(): Promise<void> {
-        if (this.client) {
-            await this.client.destroy();
-            this.client = null;
-            this.isReady = false;
-        }
+        this.destroyed = true;
+        await this.transport.destroy();
+        this.setConnectionState('disconnected');
     }
 }
 
@@ -0,0 +1,283 @@
+import pkg from 'whatsapp-web.js';
+import type { Client as ClientType, Message as MessageType, MessageAck } from 'whatsapp-web.js';
+const { Client, LocalAuth, MessageMedia } = pkg;
+import fs from 'fs';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { execSync } from 'child_process';
+import puppeteer from 'puppeteer';
+import { DeliveryStatus } from './src/types.js';
+import { CreatedGroup, Logger, MessagingTransport, OutgoingMedia, SentMessage, TransportMessage } from './messaging-transport.js';
+
+export interface WhatsAppWebTransportOptions {
+    // Where the WhatsApp session is stored between runs
+    authPath: string;
+    // Keeps this session apart from others stored under the same authPath, one per account
+    clientId?: string;
+    // Run the browser without a window, e.g. for the CLI on a server
+    headless?: boolean;
+    logger?: Logger;
+}
+
+// whatsapp-web.js acknowledgement levels; pending (0) means the message has not left this device yet
+function toDeliveryStatus(ack: MessageAck): DeliveryStatus | null {
+    switch (ack) {
+        case -1: return 'failed';
+        case 1: return 'sent';
+        case 2: return 'delivered';
+        case 3:
+        case 4: return 'read';
+        default: return null;
+    }
+}
+
+/**
+ * WhatsApp Web in a Chromium instance driven by whatsapp-web.js
+ */
+class WhatsAppWebTransport extends EventEmitter implements MessagingTransport {
+    private client: ClientType | null;
+    private authPath: string;
+    private clientId: string | undefined;
+    private headless: boolean;
+    private logger: Logger;
+    // Set by destroy(), so a start that is still looking for Chromium doesn't open a browser afterwards
+    private closed: boolean;
+
+    constructor(options: WhatsAppWebTransportOptions) {
+        super();
+        this.client = null;
+        this.authPath = options.authPath;
+        this.clientId = options.clientId;
+        this.headless = options.headless ?? false;
+        this.logger = options.logger ?? console;
+        this.closed = false;
+    }
+
+    private getClient(): ClientType {
+        if (!this.client) {
+            throw new Error('WhatsApp client not initialized');
+        }
+        return this.client;
+    }
+
+    private async getChromiumPath(): Promise<string> {
+        try {
+            // Use puppeteer's bundled Chromium
+            // Launch a browser instance to ensure Chromium is downloaded
+            const browser = await puppeteer.launch({ 
+                headless: true,
+                args: ['--no-sandbox', '--disable-setuid-sandbox']
+            });
+            const chromiumPath = browser.process()?.spawnfile || '';
+            await browser.close();
+            
+            if (chromiumPath && fs.existsSync(chromiumPath)) {
+                this.logger.log('Using puppeteer bundled Chromium at:', chromiumPath);
+                return chromiumPath;
+            }
+            
+            // If we can't get the path, fallback to system Chrome
+            this.logger.log('Could not get Chromium path from puppeteer, trying system Chrome');
+            return this.findSystemChrome();
+        } catch (error) {
+            this.logger.error('Error getting Chromium from puppeteer:', error);
+            // Fallback to system Chrome if puppeteer fails
+            return this.findSystemChrome();
+        }
+    }
+
+    private findSystemChrome(): string {
+        try {
+            const platform = process.platform;
+            let possiblePaths: string[] = [];
+
+            if (platform === 'darwin') {
+                // macOS paths
+                possiblePaths = [
+                    '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+                    '/Applications/Chromium.app/Contents/MacOS/Chromium',
+                    '/Applications/Microsoft Edge.app/Contents/MacOS/Microsoft Edge',
+                    '/Applications/Brave Browser.app/Contents/MacOS/Brave Browser'
+                ];
+            } else if (platform === 'win32') {
+                // Windows paths
+                const programFiles = process.env['ProgramFiles'] || 'C:\\Program Files';
+                const programFilesX86 = process.env['ProgramFiles(x86)'] || 'C:\\Program Files (x86)';
+                const localAppData = process.env['LOCALAPPDATA'] || path.join(process.env['USERPROFILE'] || '', 'AppData', 'Local');
+
+                possiblePaths = [
+                    path.join(programFiles, 'Google\\Chrome\\Application\\chrome.exe'),
+                    path.join(programFilesX86, 'Google\\Chrome\\Application\\chrome.exe'),
+                    path.join(localAppData, 'Google\\Chrome\\Application\\chrome.exe'),
+                    path.join(programFiles, 'Microsoft\\Edge\\Application\\msedge.exe'),
+                    path.join(programFilesX86, 'Microsoft\\Edge\\Application\\msedge.exe'),
+                    path.join(programFiles, 'BraveSoftware\\Brave-Browser\\Application\\brave.exe'),
+                    path.join(programFilesX86, 'BraveSoftware\\Brave-Browser\\Application\\brave.exe'),
+                    path.join(localAppData, 'Chromium\\Application\\chrome.exe')
+                ];
+            } else {
+                // Linux paths
+                possiblePaths = [
+                    '/usr/bin/google-chrome',
+                    '/usr/bin/chromium',
+                    '/usr/bin/chromium-browser',
+                    '/snap/bin/chromium',
+                    '/usr/bin/microsoft-edge'
+                ];
+            }
+
+            for (const chromePath of possiblePaths) {
+                if (fs.existsSync(chromePath)) {
+                    this.logger.log('Found system browser at:', chromePath);
+                    return chromePath;
+                }
+            }
+
+            // Try to use command to find chrome (works on macOS/Linux)
+            if (platform !== 'win32') {
+                try {
+                    const result = execSync('which google-chrome-stable || which chromium || which google-chrome', { encoding: 'utf8' }).trim();
+                    if (result && fs.existsSync(result)) {
+                        this.logger.log('Found browser via which:', result);
+                        return result;
+                    }
+                } catch (e) {
+                    // Ignore error
+                }
+            }
+        } catch (error) {
+            this.logger.error('Error finding Chrome:', error);
+        }
+        return '';
+    }
+
+    async initialize(): Promise<void> {
+        this.closed = false;
+        // Get Chromium path from puppeteer (downloads if needed)
+        const chromiumPath = await this.getChromiumPath();
+        this.logger.log('Chromium path to use:', chromiumPath);
+        if (this.closed) {
+            throw new Error('WhatsApp client was closed while starting');
+        }
+        
+        const puppeteerConfig: any = {
+            headless: this.headless,
+            args: [
+                '--no-sandbox',
+                '--disable-setuid-sandbox',
+                '--disable-dev-shm-usage',
+                '--disable-accelerated-2d-canvas',
+                '--no-first-run',
+                '--no-zygote',
+                '--disable-gpu'
+            ]
+        };
+
+        if (chromiumPath) {
+            puppeteerConfig.executablePath = chromiumPath;
+        }
+
+        const authPath = this.authPath;
+        this.logger.log('Auth path:', authPath);
+        
+        // Ensure the directory exists
+        if (!fs.existsSync(authPath)) {
+            fs.mkdirSync(authPath, { recursive: true });
+        }
+
+        this.client = new Client({
+            authStrategy: new LocalAuth({
+                dataPath: authPath,
+                clientId: this.clientId
+            }),
+            puppeteer: puppeteerConfig
+        });
+
+        this.client.on('qr', (qr: string) => this.emit('qr', qr));
+        this.client.on('authenticated', () => this.emit('authenticated'));
+        this.client.on('loading_screen', (percent: string | number, message: string) => this.emit('loading_screen', Number(percent), message));
+        this.client.on('ready', () => this.emit('ready'));
+        this.client.on('auth_failure', (msg: string) => this.emit('auth_failure', msg));
+        this.client.on('disconnected', (reason: string) => this.emit('disconnected', reason));
+
+        this.client.on('message', (message: MessageType) => {
+            this.toTransportMessage(message)
+                .then(incoming => {
+                    if (incoming) this.emit('message', incoming);
+                })
+                .catch(error => {
+                    this.logger.error('Error reading incoming message:', error);
+                });
+        });
+
+        this.client.on('message_ack', (message: MessageType, ack: MessageAck) => {
+            const status = toDeliveryStatus(ack);
+            if (message.fromMe && status) {
+                this.emit('message_ack', message.id._serialized, status);
+            }
+        });
+
+        await this.client.initialize();
+    }
+
+    // One-to-one messages from others only; groups, broadcasts and status updates are skipped
+    private async toTransportMessage(message: MessageType): Promise<TransportMessage | null> {
+        if (message.fromMe || message.isStatus || !(message.from.endsWith('@c.us') || message.from.endsWith('@lid'))) {
+            return null;
+        }
+
+        // Privacy IDs (@lid) don't contain the number, so ask for the contact behind them
+        const number = message.from.endsWith('@lid')
+            ? (await message.getContact()).number
+            : message.from.split('@')[0];
+
+        return {
+            chatId: message.from,
+            number: number || null,
+            body: message.body,
+            hasMedia: message.hasMedia,
+            timestamp: new Date(message.timestamp * 1000)
+        };
+    }
+
+    async sendText(chatId: string, text: string): Promise<SentMessage> {
+        const sent = await this.getClient().sendMessage(chatId, text);
+        return { id: sent.id._serialized };
+    }
+
+    async sendMedia(chatId: string, media: OutgoingMedia, caption?: string): Promise<SentMessage> {
+        const sent = await this.getClient().sendMessage(chatId, new MessageMedia(media.mimetype, media.data, media.filename), { caption });
+        return { id: sent.id._serialized };
+    }
+
+    async loadMedia(source: string): Promise<OutgoingMedia> {
+        if (/^https?:\/\//i.test(source)) {
+            return MessageMedia.fromUrl(source, { unsafeMime: true });
+        }
+        return MessageMedia.fromFilePath(source);
+    }
+
+    async lookupNumber(number: string): Promise<string | null> {
+        const numberId = await this.getClient().getNumberId(number);
+        return numberId?._serialized ?? null;
+    }
+
+    async createGroup(name: string, participants: string[]): Promise<CreatedGroup> {
+        const result = await this.getClient().createGroup(name, participants);
+        // whatsapp-web.js reports failures as a message instead of throwing
+        if (typeof result === 'string') {
+            throw new Error(result);
+        }
+        return { id: result.gid._serialized, name: result.title };
+    }
+
+    async destroy(): Promise<void> {
+        this.closed = true;
+        if (this.client) {
+            await this.client.destroy();
+            this.client = null;
+        }
+    }
+}
+
+export default WhatsAppWebTransport;